@@ -0,0 +1,75 @@
+/** Frontmatter property which marks a note as the checklist of an ePub issue. */
+export const CHECKLIST_PROPERTY = 'epub-checklist'
+
+/** An exported article, listed in the checklist of its issue. */
+export interface ChecklistItem {
+	source: 'feedly' | 'instapaper'
+	/** Feedly entry ID or Instapaper bookmark ID */
+	id: string
+	title: string
+	detail?: string
+}
+
+/** Matches a task and the hidden ID of its article, e.g. `- [x] Title %%feedly:ID%%` */
+const ITEM_LINE = /^(\s*- \[)([ xX])(\].*%%(feedly|instapaper):(.+?))(:done)?%%\s*$/
+
+function escapeMarkdown(text: string) {
+	return text.replace(/([\\[\]*_`~|<>#])/g, '\\$1').replace(/\s+/g, ' ')
+}
+
+/**
+ * Writes the checklist of an issue. The user ticks what they read, and the
+ * plugin marks those articles read in Feedly or archives them in Instapaper.
+ */
+export function renderChecklist(title: string, editionId: string, issue: number, items: ChecklistItem[]) {
+	const lines = [
+		'---',
+		`${CHECKLIST_PROPERTY}: ${editionId}`,
+		`issue: ${issue}`,
+		'---',
+		`# ${escapeMarkdown(title)}`,
+		'',
+		'Tick the articles you read, then run **Apply ePub checklist**. Feedly articles are marked as read and Instapaper bookmarks archived.',
+		'',
+	]
+	for (const source of ['feedly', 'instapaper'] as const) {
+		const sourceItems = items.filter(item => item.source === source)
+		if (sourceItems.length === 0) continue
+		lines.push(`## ${source === 'feedly' ? 'Feedly' : 'Instapaper'}`, '')
+		for (const item of sourceItems) {
+			const detail = item.detail ? ` (${escapeMarkdown(item.detail)})` : ''
+			lines.push(`- [ ] ${escapeMarkdown(item.title)}${detail} %%${source}:${item.id}%%`)
+		}
+		lines.push('')
+	}
+	return lines.join('\n')
+}
+
+/**
+ * Finds the ticked articles of a checklist which were not applied yet.
+ */
+export function tickedItems(content: string) {
+	const feedly: string[] = []
+	const instapaper: string[] = []
+	for (const line of content.split('\n')) {
+		const match = ITEM_LINE.exec(line)
+		if (!match || match[2] === ' ' || match[6]) continue
+		(match[4] === 'feedly' ? feedly : instapaper).push(match[5])
+	}
+	return { feedly, instapaper }
+}
+
+/**
+ * Flags applied articles, so that applying the checklist again skips them.
+ */
+export function markApplied(content: string, source: ChecklistItem['source'], ids: string[]) {
+	const applied = new Set(ids)
+	return content
+		.split('\n')
+		.map(line => {
+			const match = ITEM_LINE.exec(line)
+			if (!match || match[4] !== source || !applied.has(match[5]) || match[6]) return line
+			return `${match[1]}${match[2]}${match[3]}:done%%`
+		})
+		.join('\n')
+}
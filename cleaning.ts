@@ -0,0 +1,267 @@
+import { App, Modal, Setting, sanitizeHTMLToDom } from 'obsidian';
+import { countWords } from './rules';
+
+/**
+ * How to clean the articles of one publisher or feed, such as a newsletter
+ * with its own sponsor blocks and footer.
+ */
+export interface CleaningProfile {
+	name: string
+	/** Publisher names containing this, ignoring case, or a Feedly feed ID such as `feed/https://…` */
+	match: string
+	/** CSS selectors of elements to remove, e.g. `.sponsor` or `table[data-block="ad"]` */
+	removeSelectors: string[]
+	/** Text which ends the preamble. Everything up to the element containing it is removed. */
+	startAfter?: string
+	/** Text which starts the footer. Everything from the element containing it is removed. */
+	stopBefore?: string
+	/** Keep tables instead of flattening them, e.g. for newsletters with data tables */
+	keepTables?: boolean
+}
+
+/**
+ * Finds the profile of an article. The first matching profile wins.
+ *
+ * @param publisher - Feedly publisher, or host of an Instapaper bookmark.
+ * @param streamId - Feedly feed of the article.
+ */
+export function findProfile(profiles: CleaningProfile[], publisher?: string, streamId?: string) {
+	return profiles.find(profile => {
+		const match = profile.match.trim()
+		if (!match) return false
+		if (match.startsWith('feed/')) return match === streamId
+		return (publisher ?? '').toLowerCase().includes(match.toLowerCase())
+	})
+}
+
+/**
+ * Finds the first text node containing `marker`, ignoring case.
+ */
+function findText(root: Node, marker: string): Text | undefined {
+	const needle = marker.toLowerCase()
+	const walker = root.ownerDocument!.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+	for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+		if ((node.textContent ?? '').toLowerCase().includes(needle)) return node as Text
+	}
+	return undefined
+}
+
+/**
+ * Removes the selectors of a profile, and what comes before its start marker
+ * and after its stop marker.
+ */
+function applyProfile(html: string, profile: CleaningProfile) {
+	const doc = new DOMParser().parseFromString(html, 'text/html')
+	const body = doc.body
+	for (const selector of profile.removeSelectors.map(s => s.trim()).filter(Boolean)) {
+		try {
+			body.querySelectorAll(selector).forEach(element => element.remove())
+		} catch (e) {
+			console.warn(`Invalid selector "${selector}" in cleaning profile ${profile.name}`, e)
+		}
+	}
+	if (profile.startAfter?.trim()) {
+		const marker = findText(body, profile.startAfter.trim())
+		if (marker) {
+			const range = doc.createRange()
+			range.setStart(body, 0)
+			range.setEndAfter(marker.parentElement && marker.parentElement !== body ? marker.parentElement : marker)
+			range.deleteContents()
+		}
+	}
+	if (profile.stopBefore?.trim()) {
+		const marker = findText(body, profile.stopBefore.trim())
+		if (marker) {
+			const range = doc.createRange()
+			range.setStartBefore(marker.parentElement && marker.parentElement !== body ? marker.parentElement : marker)
+			range.setEnd(body, body.childNodes.length)
+			range.deleteContents()
+		}
+	}
+	return body.innerHTML
+}
+
+export function cleanContent(html: string, keepImages = false, profile?: CleaningProfile) {
+	if (!html) return html;
+
+	let content = profile ? applyProfile(html, profile) : html;
+
+	// 1. Remove preheaders and display:none blocks which often contain preview text we don't want in the body
+	content = content.replace(/<div[^>]*display\s*:\s*none[^>]*>[\s\S]*?<\/div>/gi, '');
+
+	// 2. Remove known ad and social blocks
+	content = content.replace(/<div[^>]*data-block="(top-ad|ad|social)"[^>]*>[\s\S]*?<\/div>/gi, '');
+
+	// 3. Remove "View in browser" links and similar noise
+	content = content.replace(/<a[^>]*>[^<]*View in browser[^<]*<\/a>/gi, '');
+	content = content.replace(/<a[^>]*>[^<]*View on [^<]*<\/a>/gi, '');
+
+	// 4. Flatten Tables
+	// We replace table tags with nothing, and td/tr with divs to keep the flow
+	for (let i = 0; i < 3 && !profile?.keepTables; i++) {
+		content = content
+			.replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, '$1')
+			.replace(/<tbody[^>]*>([\s\S]*?)<\/tbody>/gi, '$1')
+			.replace(/<tr[^>]*>([\s\S]*?)<\/tr>/gi, '<div>$1</div>')
+			.replace(/<td[^>]*>([\s\S]*?)<\/td>/gi, '<div>$1</div>');
+	}
+
+	// 5. Strip overly complex inline styles that interfere with e-reader rendering
+	content = content.replace(/style="[^"]{40,}"/gi, '');
+
+	// 6. Final cleanup
+	if (!keepImages) {
+		content = content.replace(/<img .*?>/g, ''); // Remove images
+	}
+	return content
+		.replace(/<div>\s*<\/div>/gi, '') // Remove empty divs
+		.trim();
+}
+
+/**
+ * Edits a cleaning profile, with a preview of a sample article before and
+ * after cleaning. Changes are only kept when saved.
+ */
+export class CleaningProfileModal extends Modal {
+	private profile: CleaningProfile
+	private sample = ''
+
+	constructor(app: App, profile: CleaningProfile, private onSave: (profile: CleaningProfile) => Promise<void>) {
+		super(app)
+		this.profile = { ...profile, removeSelectors: [...profile.removeSelectors] }
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		const profile = this.profile
+		this.setTitle(`Cleaning profile: ${profile.name}`)
+		this.modalEl.addClass('feedly-cleaning')
+
+		new Setting(contentEl)
+			.setName('Name')
+			.addText((component) => {
+				component.setValue(profile.name)
+				component.onChange((value) => profile.name = value)
+			})
+
+		new Setting(contentEl)
+			.setName('Publisher or feed')
+			.setDesc('Applies to articles whose publisher contains this, or to a Feedly feed ID starting with feed/')
+			.addText((component) => {
+				component.setPlaceholder('Money Stuff')
+				component.setValue(profile.match)
+				component.onChange((value) => profile.match = value)
+			})
+
+		new Setting(contentEl)
+			.setName('Remove elements')
+			.setDesc('CSS selectors, one per line')
+			.addTextArea((component) => {
+				component.setPlaceholder('.sponsor\ntable[data-block="ad"]')
+				component.setValue(profile.removeSelectors.join('\n'))
+				component.onChange((value) => {
+					profile.removeSelectors = value.split('\n').map(s => s.trim()).filter(Boolean)
+					this.updatePreview()
+				})
+			})
+
+		new Setting(contentEl)
+			.setName('Start after')
+			.setDesc('Text ending the preamble. Everything up to the element containing it is removed.')
+			.addText((component) => {
+				component.setPlaceholder('View in browser')
+				component.setValue(profile.startAfter ?? '')
+				component.onChange((value) => {
+					profile.startAfter = value || undefined
+					this.updatePreview()
+				})
+			})
+
+		new Setting(contentEl)
+			.setName('Stop before')
+			.setDesc('Text starting the footer. Everything from the element containing it is removed.')
+			.addText((component) => {
+				component.setPlaceholder('Like getting this newsletter?')
+				component.setValue(profile.stopBefore ?? '')
+				component.onChange((value) => {
+					profile.stopBefore = value || undefined
+					this.updatePreview()
+				})
+			})
+
+		new Setting(contentEl)
+			.setName('Keep tables')
+			.setDesc('Tables are flattened by default, because newsletters use them for layout')
+			.addToggle((toggle) => {
+				toggle.setValue(profile.keepTables ?? false)
+				toggle.onChange((value) => {
+					profile.keepTables = value
+					this.updatePreview()
+				})
+			})
+
+		new Setting(contentEl)
+			.setName('Sample')
+			.setDesc('Pick an HTML file of the vault, or paste the HTML of an article, to preview the cleaning')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('', 'Pasted HTML')
+				for (const file of this.app.vault.getFiles().filter(f => f.extension === 'html' || f.extension === 'htm')) {
+					dropdown.addOption(file.path, file.path)
+				}
+				dropdown.onChange(async (value) => {
+					const file = value ? this.app.vault.getFileByPath(value) : null
+					if (file) {
+						this.sample = await this.app.vault.cachedRead(file)
+						this.updatePreview()
+					}
+				})
+			})
+			.addTextArea((component) => {
+				component.setPlaceholder('<html>…</html>')
+				component.onChange((value) => {
+					this.sample = value
+					this.updatePreview()
+				})
+			})
+
+		contentEl.createDiv({ cls: 'feedly-cleaning-preview' })
+
+		new Setting(contentEl)
+			.addButton((component) => {
+				component.setButtonText('Cancel')
+				component.onClick(() => this.close())
+			})
+			.addButton((component) => {
+				component.setButtonText('Save')
+				component.setCta()
+				component.onClick(async () => {
+					profile.name = profile.name.trim() || profile.match.trim() || 'Untitled'
+					await this.onSave(profile)
+					this.close()
+				})
+			})
+	}
+
+	onClose() {
+		this.contentEl.empty()
+	}
+
+	/**
+	 * Shows the sample next to its cleaned version, with their word counts.
+	 * Both are sanitized, so scripts and remote content of the sample do not run.
+	 */
+	private updatePreview() {
+		const previewEl = this.contentEl.querySelector<HTMLElement>('.feedly-cleaning-preview')
+		if (!previewEl) return
+		previewEl.empty()
+		if (!this.sample.trim()) return
+
+		const before = cleanContent(this.sample)
+		const after = cleanContent(this.sample, false, this.profile)
+		for (const [title, html] of [['Default cleaning', before], ['With this profile', after]]) {
+			const pane = previewEl.createDiv({ cls: 'feedly-cleaning-pane' })
+			pane.createEl('h4', { text: `${title} (${countWords(html)} words)` })
+			pane.createDiv({ cls: 'feedly-cleaning-sample' }).appendChild(sanitizeHTMLToDom(html))
+		}
+	}
+}
@@ -0,0 +1,118 @@
+import { App, normalizePath } from 'obsidian';
+
+/** Articles which went into one issue of an edition. */
+export interface DeliveredIssue {
+	issue: number
+	date: number
+	/** Feedly entry IDs */
+	entryIds: string[]
+	/** Instapaper bookmark IDs */
+	bookmarkIds: string[]
+}
+
+/**
+ * Feedly articles of issues older than this are forgotten. Feedly marks
+ * unread articles as read after a month, so they would not come back anyway.
+ */
+const KEEP_DAYS = 90
+
+/**
+ * Saved articles stay in an edition for its lookback window, so their issues
+ * are kept for that long plus this many days when it is longer than `KEEP_DAYS`.
+ */
+const LOOKBACK_MARGIN_DAYS = 14
+
+/**
+ * The articles delivered in earlier issues of each edition, so that later
+ * issues can leave them out. Kept in a file of the plugin folder, like the
+ * sync history, rather than in the synced settings.
+ */
+export class DeliveryLog {
+	private editions: Record<string, DeliveredIssue[]> = {}
+
+	constructor(private app: App, private path: string) {
+		this.path = normalizePath(path)
+	}
+
+	async load() {
+		try {
+			if (await this.app.vault.adapter.exists(this.path)) {
+				this.editions = JSON.parse(await this.app.vault.adapter.read(this.path))
+			}
+		} catch (e) {
+			console.error('Cannot read the delivered articles', e)
+			this.editions = {}
+		}
+	}
+
+	/**
+	 * Issue number of every article delivered in an issue of the edition, by
+	 * Feedly entry ID and by Instapaper bookmark ID.
+	 */
+	delivered(editionId: string) {
+		const entries = new Map<string, number>()
+		const bookmarks = new Map<string, number>()
+		for (const issue of this.editions[editionId] ?? []) {
+			issue.entryIds.forEach(id => entries.set(id, issue.issue))
+			issue.bookmarkIds.forEach(id => bookmarks.set(id, issue.issue))
+		}
+		return { entries, bookmarks }
+	}
+
+	/** Number of the latest issue remembered for an edition, or 0 */
+	lastIssue(editionId: string) {
+		return Math.max(0, ...(this.editions[editionId] ?? []).map(i => i.issue))
+	}
+
+	/** Number of issues remembered for an edition */
+	issueCount(editionId: string) {
+		return this.editions[editionId]?.length ?? 0
+	}
+
+	/**
+	 * Remembers the articles of an issue, and forgets the Feedly articles of
+	 * issues which can no longer come back. Instapaper bookmarks stay unread
+	 * for as long as the user keeps them, so they are only forgotten by
+	 * `keepUnreadBookmarks`.
+	 *
+	 * @param lookbackDays - Lookback window of the edition.
+	 */
+	async record(editionId: string, issue: DeliveredIssue, lookbackDays = 0) {
+		const keepDays = Math.max(KEEP_DAYS, lookbackDays + LOOKBACK_MARGIN_DAYS)
+		const since = Date.now() - keepDays * 24 * 60 * 60 * 1000
+		this.editions[editionId] = [...(this.editions[editionId] ?? []), issue]
+			.map(i => i.date >= since ? i : { ...i, entryIds: [] })
+			.filter(i => i.entryIds.length > 0 || i.bookmarkIds.length > 0)
+		await this.save()
+	}
+
+	/**
+	 * Forgets the delivered bookmarks which are no longer unread, once the
+	 * whole unread list of Instapaper was fetched.
+	 *
+	 * @param unreadIds - Bookmark IDs of every unread bookmark.
+	 */
+	async keepUnreadBookmarks(editionId: string, unreadIds: string[]) {
+		const issues = this.editions[editionId]
+		if (!issues) return
+		const unread = new Set(unreadIds)
+		this.editions[editionId] = issues
+			.map(i => ({ ...i, bookmarkIds: i.bookmarkIds.filter(id => unread.has(id)) }))
+			.filter(i => i.entryIds.length > 0 || i.bookmarkIds.length > 0)
+		await this.save()
+	}
+
+	/** Lets the next issue of an edition include every article again */
+	async forget(editionId: string) {
+		delete this.editions[editionId]
+		await this.save()
+	}
+
+	private async save() {
+		try {
+			await this.app.vault.adapter.write(this.path, JSON.stringify(this.editions))
+		} catch (e) {
+			console.error('Cannot save the delivered articles', e)
+		}
+	}
+}
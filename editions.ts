@@ -0,0 +1,339 @@
+import { App, Modal, Setting, TFile, normalizePath } from 'obsidian';
+import MD5 from 'crypto-js/md5';
+import { FeedlySubscription, FeedlyTag } from './feedly';
+import { renderTemplate, sanitizePathSegment } from './template';
+
+/**
+ * A named ePub, such as a morning news digest or a weekend reading list,
+ * with its own sources, book metadata and folder.
+ */
+export interface EpubEdition {
+	/** Never changes once created, so that commands and book IDs stay the same when the edition is renamed */
+	id: string
+	name: string
+	/** Feedly categories, feeds and boards, by name or stream ID. Empty takes every unread article. */
+	sources: string[]
+	/** Add recent saved-for-later articles */
+	saved: boolean
+	/** Days of saved-for-later and board articles to include */
+	lookbackDays: number
+	/** Add unread Instapaper bookmarks */
+	instapaper: boolean
+	/**
+	 * Which articles of earlier issues can be delivered again: none, only
+	 * saved ones (saved for later, boards and Instapaper), or all of them.
+	 */
+	carryForward?: 'none' | 'saved' | 'all'
+	/** What happens to exported Feedly articles */
+	markFeedlyRead?: AfterExport
+	/** What happens to exported Instapaper bookmarks */
+	archiveInstapaper?: AfterExport
+	/** Book title of each issue. `{{date}}` and `{{issue}}` are replaced. */
+	title: string
+	author: string
+	publisher: string
+	description?: string
+	/** Vault folder of the ePub files. Empty for the vault root. */
+	folder: string
+	/** Number of the last issue generated */
+	lastIssue?: number
+}
+
+/**
+ * `now` marks exported articles as read, or archives them, as soon as the
+ * ePub is written. `checklist` writes a note next to the ePub, and only does
+ * it for the articles ticked there.
+ */
+export type AfterExport = 'never' | 'now' | 'checklist'
+
+/** A Feedly stream which an edition takes articles from. */
+export interface EditionStream {
+	streamId: string
+	label: string
+	/** Boards collect saved articles, so they are read like saved for later rather than for unread articles */
+	kind: 'category' | 'feed' | 'board'
+}
+
+/**
+ * The edition which the plugin generated before editions were configurable.
+ */
+export function defaultEdition(): EpubEdition {
+	return {
+		id: 'evening-discourse',
+		name: 'Evening Discourse',
+		sources: [],
+		saved: true,
+		lookbackDays: 30,
+		instapaper: true,
+		title: 'Your Evening Discourse for {{date}}',
+		author: 'Evening Discourse',
+		publisher: 'Quillcast',
+		folder: '',
+	}
+}
+
+export function newEdition(name: string): EpubEdition {
+	return {
+		...defaultEdition(),
+		id: Date.now().toString(36),
+		name,
+		title: `${name} for {{date}}`,
+		author: name,
+		lastIssue: undefined,
+	}
+}
+
+/**
+ * Book identifier of an issue, the same every time for that issue and
+ * different for every other issue of any edition, so that e-reader libraries
+ * neither merge nor duplicate books.
+ */
+export function issueIdentifier(edition: EpubEdition, issue: number) {
+	const hash = MD5(`${edition.id}/${issue}`).toString()
+	return `urn:uuid:${hash.substring(0, 8)}-${hash.substring(8, 12)}-${hash.substring(12, 16)}-${hash.substring(16, 20)}-${hash.substring(20, 32)}`
+}
+
+/**
+ * Path of an issue without the `.epub` extension.
+ */
+export function issuePath(edition: EpubEdition, issue: number, date: string) {
+	const name = sanitizePathSegment(`${edition.name} ${date} No ${issue}`)
+	return normalizePath(`${edition.folder}/${name}`)
+}
+
+/**
+ * Number of the next issue of an edition. It comes after the last issue in
+ * the settings, the last delivered issue and every issue file in the folder
+ * of the edition, so that neither the file nor the book identifier of an
+ * earlier issue is reused, even if the settings were restored from an older copy.
+ *
+ * @param files - Files of the vault.
+ * @param lastDelivered - Last issue in the delivery log of the edition.
+ */
+export function nextIssue(edition: EpubEdition, files: TFile[], lastDelivered = 0) {
+	let last = Math.max(edition.lastIssue ?? 0, lastDelivered)
+	for (const file of files) {
+		if (isIssueFile(edition, file)) {
+			last = Math.max(last, parseInt(/ No (\d+)$/.exec(file.basename)![1], 10))
+		}
+	}
+	return last + 1
+}
+
+export function issueTitle(edition: EpubEdition, issue: number, date: string) {
+	return renderTemplate(edition.title, { date, issue: String(issue) })
+}
+
+/**
+ * Finds the Feedly streams of the sources of an edition. A source is a stream
+ * ID, or the name of a category, feed or board, ignoring case.
+ *
+ * @returns The streams, and the sources which match none.
+ */
+export function resolveSources(sources: string[], subscriptions: FeedlySubscription[], tags: FeedlyTag[]) {
+	const streams: EditionStream[] = []
+	const unknown: string[] = []
+	const categories = new Map<string, EditionStream>()
+	const feeds = new Map<string, EditionStream>()
+	for (const subscription of subscriptions) {
+		feeds.set(subscription.id, { streamId: subscription.id, label: subscription.title ?? subscription.id, kind: 'feed' })
+		for (const category of subscription.categories ?? []) {
+			categories.set(category.id, { streamId: category.id, label: category.label ?? category.id, kind: 'category' })
+		}
+	}
+	const boards = tags.map((tag): EditionStream => ({ streamId: tag.id, label: tag.label ?? tag.id, kind: 'board' }))
+	const known = [...categories.values(), ...feeds.values(), ...boards]
+
+	for (const source of sources.map(s => s.trim()).filter(Boolean)) {
+		const name = source.toLowerCase()
+		const stream = known.find(s => s.streamId === source) ?? known.find(s => s.label.toLowerCase() === name)
+		if (stream) {
+			streams.push(stream)
+		} else if (source.startsWith('feed/')) {
+			streams.push({ streamId: source, label: source, kind: 'feed' })
+		} else if (/^user\/[^/]+\/category\//.test(source)) {
+			streams.push({ streamId: source, label: source, kind: 'category' })
+		} else if (/^user\/[^/]+\/tag\//.test(source)) {
+			streams.push({ streamId: source, label: source, kind: 'board' })
+		} else {
+			unknown.push(source)
+		}
+	}
+	return { streams, unknown }
+}
+
+/**
+ * Edits the settings of an edition. Changes are only kept when saved.
+ */
+export class EditionModal extends Modal {
+	private edition: EpubEdition
+
+	constructor(app: App, edition: EpubEdition, private onSave: (edition: EpubEdition) => Promise<void>) {
+		super(app)
+		this.edition = { ...edition, sources: [...edition.sources] }
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		const edition = this.edition
+		this.setTitle(`Edition: ${edition.name}`)
+
+		new Setting(contentEl)
+			.setName('Name')
+			.setDesc('Shown in the command palette and the file names of its issues')
+			.addText((component) => {
+				component.setValue(edition.name)
+				component.onChange((value) => edition.name = value)
+			})
+
+		new Setting(contentEl)
+			.setName('Feedly sources')
+			.setDesc('Categories, feeds and boards, by name or stream ID, one per line. Takes the unread articles of categories and feeds, and the recent articles of boards. Leave empty for every unread article.')
+			.addTextArea((component) => {
+				component.setPlaceholder('Tech\nHacker News\nRead later')
+				component.setValue(edition.sources.join('\n'))
+				component.onChange((value) => edition.sources = value.split('\n').map(s => s.trim()).filter(Boolean))
+			})
+
+		new Setting(contentEl)
+			.setName('Saved for later')
+			.setDesc('Include recent saved-for-later articles')
+			.addToggle((toggle) => {
+				toggle.setValue(edition.saved)
+				toggle.onChange((value) => edition.saved = value)
+			})
+
+		new Setting(contentEl)
+			.setName('Lookback window')
+			.setDesc('Days of saved-for-later and board articles to include')
+			.addText((component) => {
+				component.inputEl.type = 'number'
+				component.setValue(String(edition.lookbackDays))
+				component.onChange((value) => edition.lookbackDays = Math.max(1, parseInt(value, 10) || 1))
+			})
+
+		new Setting(contentEl)
+			.setName('Instapaper')
+			.setDesc('Include unread Instapaper articles, when signed in')
+			.addToggle((toggle) => {
+				toggle.setValue(edition.instapaper)
+				toggle.onChange((value) => edition.instapaper = value)
+			})
+
+		new Setting(contentEl)
+			.setName('Articles of earlier issues')
+			.setDesc('Whether articles which an earlier issue of this edition delivered can come again while they are unread or saved')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('none', 'Leave out')
+				dropdown.addOption('saved', 'Carry forward saved articles only')
+				dropdown.addOption('all', 'Include again')
+				dropdown.setValue(edition.carryForward ?? 'none')
+				dropdown.onChange((value) => edition.carryForward = value as EpubEdition['carryForward'])
+			})
+
+		new Setting(contentEl)
+			.setName('Mark Feedly articles as read')
+			.setDesc('After the ePub is written, or for the articles ticked in a checklist note next to it')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('never', 'Never')
+				dropdown.addOption('now', 'Right after export')
+				dropdown.addOption('checklist', 'When ticked in the checklist')
+				dropdown.setValue(edition.markFeedlyRead ?? 'never')
+				dropdown.onChange((value) => edition.markFeedlyRead = value as AfterExport)
+			})
+
+		new Setting(contentEl)
+			.setName('Archive Instapaper bookmarks')
+			.setDesc('After the ePub is written, or for the bookmarks ticked in a checklist note next to it')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('never', 'Never')
+				dropdown.addOption('now', 'Right after export')
+				dropdown.addOption('checklist', 'When ticked in the checklist')
+				dropdown.setValue(edition.archiveInstapaper ?? 'never')
+				dropdown.onChange((value) => edition.archiveInstapaper = value as AfterExport)
+			})
+
+		new Setting(contentEl)
+			.setName('Book title')
+			.setDesc('Variables: {{date}}, {{issue}}')
+			.addText((component) => {
+				component.setValue(edition.title)
+				component.onChange((value) => edition.title = value)
+			})
+
+		new Setting(contentEl)
+			.setName('Author')
+			.addText((component) => {
+				component.setValue(edition.author)
+				component.onChange((value) => edition.author = value)
+			})
+
+		new Setting(contentEl)
+			.setName('Publisher')
+			.addText((component) => {
+				component.setValue(edition.publisher)
+				component.onChange((value) => edition.publisher = value)
+			})
+
+		new Setting(contentEl)
+			.setName('Description')
+			.addTextArea((component) => {
+				component.setValue(edition.description ?? '')
+				component.onChange((value) => edition.description = value || undefined)
+			})
+
+		new Setting(contentEl)
+			.setName('Folder')
+			.setDesc('Vault folder of the ePub files. Leave empty for the vault root.')
+			.addText((component) => {
+				component.setPlaceholder('ePubs/Morning Tech')
+				component.setValue(edition.folder)
+				component.onChange((value) => edition.folder = value.trim())
+			})
+
+		const status = new Setting(contentEl)
+			.addButton((component) => {
+				component.setButtonText('Cancel')
+				component.onClick(() => this.close())
+			})
+			.addButton((component) => {
+				component.setButtonText('Save')
+				component.setCta()
+				component.onClick(async () => {
+					if (!edition.name.trim()) {
+						status.setDesc('Name the edition first')
+						return
+					}
+					edition.name = edition.name.trim()
+					await this.onSave(edition)
+					this.close()
+				})
+			})
+	}
+
+	onClose() {
+		this.contentEl.empty()
+	}
+}
+
+/**
+ * Whether a file is an issue of an edition, for cleaning up old issues. The
+ * name must be the edition name, a date and the issue number, so that
+ * "Tech Weekly" issues are not taken for issues of "Tech".
+ */
+export function isIssueFile(edition: EpubEdition, file: TFile) {
+	const folder = normalizePath(edition.folder || '/')
+	const name = sanitizePathSegment(edition.name).replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+	return file.extension === 'epub'
+		&& (file.parent?.path ?? '/') === folder
+		&& new RegExp(`^${name} \\d{4}-\\d{2}-\\d{2} No \\d+$`).test(file.basename)
+}
+
+/**
+ * Path of the checklist note of an issue, next to its ePub.
+ *
+ * @param path - Path of the issue without the `.epub` extension.
+ */
+export function checklistPath(path: string) {
+	return `${path} checklist.md`
+}
@@ -0,0 +1,93 @@
+import { App, CachedMetadata, TFile } from 'obsidian';
+
+const FEEDLY_ENTRY_URL = 'https://feedly.com/i/entry/'
+
+/**
+ * Extracts the Feedly entry ID from a `feedlyUrl` frontmatter value.
+ */
+export function entryIdFromFeedlyUrl(feedlyUrl: unknown): string | undefined {
+	if (typeof feedlyUrl !== 'string' || !feedlyUrl.startsWith(FEEDLY_ENTRY_URL)) {
+		return undefined
+	}
+	return feedlyUrl.substring(FEEDLY_ENTRY_URL.length)
+}
+
+/**
+ * Maps Feedly entry IDs to the notes which hold their annotations, using the
+ * `feedlyUrl` frontmatter of every note in the vault. Notes keep their entry
+ * wherever they are moved and whatever they are called.
+ */
+export class EntryIndex {
+	private pathsByEntry = new Map<string, string>()
+	private entriesByPath = new Map<string, string>()
+
+	constructor(private app: App) {}
+
+	/**
+	 * Rebuilds the index from the metadata cache of every Markdown file.
+	 */
+	rebuild() {
+		this.pathsByEntry.clear()
+		this.entriesByPath.clear()
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			this.update(file, this.app.metadataCache.getFileCache(file))
+		}
+	}
+
+	/**
+	 * Updates the entry of a note after its metadata changed.
+	 */
+	update(file: TFile, cache: CachedMetadata | null) {
+		const entryId = entryIdFromFeedlyUrl(cache?.frontmatter?.feedlyUrl)
+		if (entryId) {
+			this.set(entryId, file)
+		} else {
+			this.remove(file.path)
+		}
+	}
+
+	set(entryId: string, file: TFile) {
+		this.remove(file.path)
+		this.pathsByEntry.set(entryId, file.path)
+		this.entriesByPath.set(file.path, entryId)
+	}
+
+	rename(file: TFile, oldPath: string) {
+		const entryId = this.entriesByPath.get(oldPath)
+		if (entryId === undefined) return
+		this.remove(oldPath)
+		this.set(entryId, file)
+	}
+
+	remove(path: string) {
+		const entryId = this.entriesByPath.get(path)
+		if (entryId === undefined) return
+		this.entriesByPath.delete(path)
+		if (this.pathsByEntry.get(entryId) === path) {
+			this.pathsByEntry.delete(entryId)
+		}
+	}
+
+	getFile(entryId: string): TFile | null {
+		const path = this.pathsByEntry.get(entryId)
+		return path ? this.app.vault.getFileByPath(path) : null
+	}
+
+	getEntryId(path: string): string | undefined {
+		return this.entriesByPath.get(path)
+	}
+
+	/**
+	 * Lists every indexed note with its entry ID.
+	 */
+	entries(): { entryId: string, file: TFile }[] {
+		const out: { entryId: string, file: TFile }[] = []
+		for (const [entryId, path] of this.pathsByEntry) {
+			const file = this.app.vault.getFileByPath(path)
+			if (file) {
+				out.push({ entryId, file })
+			}
+		}
+		return out
+	}
+}
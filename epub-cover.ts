@@ -0,0 +1,206 @@
+import { requestUrl } from 'obsidian';
+import { EpubImage } from './epub-images';
+
+/**
+ * `classic` is a newspaper front page, `dark` the same on a dark background
+ * and `minimal` only shows the title, date and article count.
+ */
+export type CoverStyle = 'classic' | 'dark' | 'minimal'
+
+export interface CoverParams {
+	title: string
+	date: Date
+	articleCount: number
+	/** Titles of the first articles, listed on `classic` and `dark` covers */
+	headlines: string[]
+	/** Publishers shown at the bottom, with the URL of their icon when known */
+	sources: { name: string, iconUrl?: string }[]
+	style: CoverStyle
+}
+
+/** Size of the cover, in the 3:4 ratio of most e-readers. */
+const WIDTH = 1200
+const HEIGHT = 1600
+const MARGIN = 90
+
+const MAX_HEADLINES = 6
+const MAX_SOURCES = 6
+const LOGO_SIZE = 96
+
+const SERIF = 'Georgia, "Times New Roman", serif'
+const SANS = '"Helvetica Neue", Arial, sans-serif'
+
+const COLORS: Record<CoverStyle, { background: string, text: string, muted: string }> = {
+	classic: { background: '#fbf8f1', text: '#111', muted: '#555' },
+	dark: { background: '#1d1f24', text: '#f4f1ea', muted: '#a9a59c' },
+	minimal: { background: '#fff', text: '#111', muted: '#666' },
+}
+
+/**
+ * Splits text into lines that fit `maxWidth`, ending the last allowed line
+ * with an ellipsis when the text does not fit.
+ */
+function wrapText(context: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+	const lines: string[] = []
+	let line = ''
+	for (const word of text.split(/\s+/).filter(Boolean)) {
+		const candidate = line ? `${line} ${word}` : word
+		if (context.measureText(candidate).width <= maxWidth || !line) {
+			line = candidate
+			continue
+		}
+		lines.push(line)
+		line = word
+		if (lines.length === maxLines) break
+	}
+	if (lines.length < maxLines && line) {
+		lines.push(line)
+	} else if (line && lines.length === maxLines) {
+		let last = lines[maxLines - 1]
+		while (last.length > 0 && context.measureText(`${last}…`).width > maxWidth) {
+			last = last.substring(0, last.length - 1)
+		}
+		lines[maxLines - 1] = `${last.trimEnd()}…`
+	}
+	return lines
+}
+
+async function loadIcon(url: string): Promise<ImageBitmap | undefined> {
+	try {
+		const res = await requestUrl({ url, throw: false })
+		if (res.status >= 400) return undefined
+		return await createImageBitmap(new Blob([res.arrayBuffer]))
+	} catch (e) {
+		console.warn(`Cannot load icon ${url}`, e)
+		return undefined
+	}
+}
+
+/**
+ * Draws a source icon, or the initial of the source when it has none.
+ */
+function drawSource(context: CanvasRenderingContext2D, name: string, icon: ImageBitmap | undefined, x: number, y: number, style: CoverStyle) {
+	if (icon) {
+		context.drawImage(icon, x, y, LOGO_SIZE, LOGO_SIZE)
+		return
+	}
+	context.fillStyle = COLORS[style].muted
+	context.beginPath()
+	context.arc(x + LOGO_SIZE / 2, y + LOGO_SIZE / 2, LOGO_SIZE / 2, 0, Math.PI * 2)
+	context.fill()
+	context.fillStyle = COLORS[style].background
+	context.font = `bold ${LOGO_SIZE / 2}px ${SANS}`
+	context.textAlign = 'center'
+	context.textBaseline = 'middle'
+	context.fillText(name.substring(0, 1).toUpperCase(), x + LOGO_SIZE / 2, y + LOGO_SIZE / 2)
+	context.textAlign = 'left'
+	context.textBaseline = 'alphabetic'
+}
+
+/**
+ * Renders the cover of an ePub edition, so that editions can be told apart
+ * in the library of an e-reader.
+ */
+export async function renderCover(params: CoverParams): Promise<EpubImage> {
+	const { style } = params
+	const colors = COLORS[style]
+	const canvas = document.createElement('canvas')
+	canvas.width = WIDTH
+	canvas.height = HEIGHT
+	const context = canvas.getContext('2d')
+	if (!context) {
+		throw new Error('Canvas is not available')
+	}
+	const contentWidth = WIDTH - MARGIN * 2
+
+	context.fillStyle = colors.background
+	context.fillRect(0, 0, WIDTH, HEIGHT)
+	context.fillStyle = colors.text
+	context.strokeStyle = colors.text
+
+	const dateText = params.date.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+	const countText = `${params.articleCount} ${params.articleCount === 1 ? 'article' : 'articles'}`
+
+	if (style === 'minimal') {
+		context.font = `bold 110px ${SERIF}`
+		const titleLines = wrapText(context, params.title, contentWidth, 3)
+		let y = HEIGHT / 2 - titleLines.length * 60
+		for (const line of titleLines) {
+			context.fillText(line, MARGIN, y)
+			y += 125
+		}
+		context.fillStyle = colors.muted
+		context.font = `56px ${SANS}`
+		context.fillText(dateText, MARGIN, y + 40)
+		context.fillText(countText, MARGIN, y + 120)
+		return await toImage(canvas)
+	}
+
+	// Masthead
+	context.textAlign = 'center'
+	context.font = `bold 96px ${SERIF}`
+	const titleLines = wrapText(context, params.title, contentWidth, 2)
+	let y = MARGIN + 90
+	for (const line of titleLines) {
+		context.fillText(line, WIDTH / 2, y)
+		y += 110
+	}
+	context.lineWidth = 4
+	context.beginPath()
+	context.moveTo(MARGIN, y - 40)
+	context.lineTo(WIDTH - MARGIN, y - 40)
+	context.stroke()
+	context.font = `40px ${SANS}`
+	context.fillText(`${dateText}  ·  ${countText}`, WIDTH / 2, y + 20)
+	context.lineWidth = 2
+	context.beginPath()
+	context.moveTo(MARGIN, y + 55)
+	context.lineTo(WIDTH - MARGIN, y + 55)
+	context.stroke()
+	context.textAlign = 'left'
+
+	// Headlines
+	y += 150
+	const footerTop = HEIGHT - MARGIN - LOGO_SIZE - 40
+	for (const headline of params.headlines.slice(0, MAX_HEADLINES)) {
+		context.fillStyle = colors.text
+		context.font = `bold 50px ${SERIF}`
+		const lines = wrapText(context, headline, contentWidth, 2)
+		if (y + lines.length * 62 > footerTop) break
+		for (const line of lines) {
+			context.fillText(line, MARGIN, y)
+			y += 62
+		}
+		y += 34
+	}
+
+	// Sources
+	const sources = params.sources.slice(0, MAX_SOURCES)
+	if (sources.length > 0) {
+		const icons = await Promise.all(sources.map(source => source.iconUrl ? loadIcon(source.iconUrl) : Promise.resolve(undefined)))
+		const gap = 40
+		const rowWidth = sources.length * LOGO_SIZE + (sources.length - 1) * gap
+		let x = (WIDTH - rowWidth) / 2
+		context.strokeStyle = colors.muted
+		context.lineWidth = 2
+		context.beginPath()
+		context.moveTo(MARGIN, footerTop)
+		context.lineTo(WIDTH - MARGIN, footerTop)
+		context.stroke()
+		sources.forEach((source, i) => {
+			drawSource(context, source.name, icons[i], x, HEIGHT - MARGIN - LOGO_SIZE, style)
+			icons[i]?.close()
+			x += LOGO_SIZE + gap
+		})
+	}
+
+	return await toImage(canvas)
+}
+
+async function toImage(canvas: HTMLCanvasElement): Promise<EpubImage> {
+	const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85))
+	if (!blob) {
+		throw new Error('Cannot encode the cover')
+	}
+	return { name: 'cover.jpg', data: await blob.arrayBuffer(), mediaType: 'image/jpeg' }
+}
@@ -0,0 +1,143 @@
+import { requestUrl } from 'obsidian';
+
+/** An image file to add to the `OEBPF/images` folder of an ePub. */
+export interface EpubImage {
+	name: string
+	data: ArrayBuffer
+	mediaType: string
+}
+
+export interface EpubImageOptions {
+	/** Images wider than this are scaled down, in pixels */
+	maxWidth: number
+	/** Convert images to grayscale, which e-ink screens show anyway at a fraction of the size */
+	grayscale: boolean
+	/** Total size of the images of one ePub, in bytes. Later images fall back to their alt text. */
+	budget: number
+}
+
+/** JPEG quality of converted images. */
+const JPEG_QUALITY = 0.7
+
+/** Images this small in either dimension are tracking pixels or spacers. */
+const MIN_SIZE = 4
+
+const IMG_TAG = /<img\b[^>]*>/gi
+
+function escapeHtml(text: string) {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Downloads the images of ePub chapters, converts them for e-readers and
+ * points the chapters at the copies inside the ePub. The same image is only
+ * stored once, even if several articles or URLs use it.
+ */
+export class EpubImageCollector {
+	readonly images: EpubImage[] = []
+	/** Images replaced by their alt text, because they failed or did not fit in the budget */
+	fallbacks = 0
+	private bytes = 0
+	/** Name of the stored image of each URL, or null if it could not be used */
+	private byUrl = new Map<string, string | null>()
+	/** Name of the stored image of each converted image, by hash */
+	private byHash = new Map<string, string>()
+
+	constructor(private options: EpubImageOptions) {}
+
+	/**
+	 * Rewrites the images of a chapter to point at `../images`, relative to the
+	 * content folder of the ePub, or to their alt text when they cannot be used.
+	 */
+	async embed(html: string): Promise<string> {
+		const tags = html.match(IMG_TAG) ?? []
+		const replacements = new Map<string, string>()
+		for (const tag of tags) {
+			if (replacements.has(tag)) continue
+			const img = new DOMParser().parseFromString(tag, 'text/html').querySelector('img')
+			const src = img?.getAttribute('src') ?? ''
+			const alt = img?.getAttribute('alt')?.trim() ?? ''
+			const width = parseInt(img?.getAttribute('width') ?? '', 10)
+			const height = parseInt(img?.getAttribute('height') ?? '', 10)
+			if (width < MIN_SIZE || height < MIN_SIZE) {
+				replacements.set(tag, '')
+				continue
+			}
+			const name = await this.store(src)
+			if (name) {
+				replacements.set(tag, `<img src="../images/${name}" alt="${escapeHtml(alt)}" />`)
+			} else {
+				this.fallbacks++
+				replacements.set(tag, alt ? `<p class="image-alt">[Image: ${escapeHtml(alt)}]</p>` : '')
+			}
+		}
+		return html.replace(IMG_TAG, tag => replacements.get(tag) ?? '')
+	}
+
+	/**
+	 * Downloads and converts an image, unless the same URL or image was already stored.
+	 *
+	 * @returns The file name of the stored image, or undefined if it cannot be used.
+	 */
+	private async store(src: string): Promise<string | undefined> {
+		if (!/^https?:\/\//i.test(src)) return undefined
+		const known = this.byUrl.get(src)
+		if (known !== undefined) return known ?? undefined
+		if (this.bytes >= this.options.budget) return undefined
+
+		let name: string | null = null
+		try {
+			const res = await requestUrl({ url: src, throw: false })
+			if (res.status < 400 && res.arrayBuffer.byteLength > 0) {
+				const data = await this.convert(res.arrayBuffer)
+				const hash = await digest(data)
+				const existing = this.byHash.get(hash)
+				if (existing) {
+					name = existing
+				} else if (this.bytes + data.byteLength <= this.options.budget) {
+					name = `img-${this.images.length + 1}.jpg`
+					this.images.push({ name, data, mediaType: 'image/jpeg' })
+					this.byHash.set(hash, name)
+					this.bytes += data.byteLength
+				}
+			}
+		} catch (e) {
+			console.warn(`Cannot embed image ${src}`, e)
+		}
+		this.byUrl.set(src, name)
+		return name ?? undefined
+	}
+
+	/**
+	 * Scales an image down to the maximum width and re-encodes it as a JPEG,
+	 * in grayscale if configured. Transparent areas become white.
+	 */
+	private async convert(data: ArrayBuffer): Promise<ArrayBuffer> {
+		const bitmap = await createImageBitmap(new Blob([data]))
+		const scale = Math.min(1, this.options.maxWidth / bitmap.width)
+		const canvas = document.createElement('canvas')
+		canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+		canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+		const context = canvas.getContext('2d')
+		if (!context) {
+			throw new Error('Canvas is not available')
+		}
+		context.fillStyle = '#fff'
+		context.fillRect(0, 0, canvas.width, canvas.height)
+		if (this.options.grayscale) {
+			context.filter = 'grayscale(1)'
+		}
+		context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+		bitmap.close()
+		const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY))
+		if (!blob) {
+			throw new Error('Cannot encode image')
+		}
+		return await blob.arrayBuffer()
+	}
+}
+
+async function digest(data: ArrayBuffer) {
+	const hash = await crypto.subtle.digest('SHA-1', data)
+	return Array.from(new Uint8Array(hash), b => b.toString(16).padStart(2, '0')).join('')
+}
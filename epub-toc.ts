@@ -0,0 +1,147 @@
+import { NodepubFile } from 'nodepub';
+
+/** What the chapters of an ePub are grouped by, each group getting a header page. */
+export type EpubGrouping = 'none' | 'source' | 'category' | 'publisher'
+
+/** Order of the chapters inside each group. `feed` keeps the order in which they were fetched. */
+export type EpubSort = 'feed' | 'newest' | 'oldest' | 'title'
+
+/** Where a chapter came from, to group and sort it. */
+export interface ChapterInfo {
+	/** e.g. `Feedly`, `Saved for later` or `Instapaper` */
+	source: string
+	publisher?: string
+	categories?: string[]
+	/** Publication or save date, in milliseconds since the epoch */
+	date?: number
+}
+
+export interface ChapterGroup<T> {
+	title: string
+	chapters: T[]
+}
+
+/**
+ * Groups and sorts chapters. Sources keep the order in which they first
+ * appear, categories and publishers are sorted by name, and chapters without
+ * one go last.
+ */
+export function groupChapters<T extends { title: string }>(chapters: T[], info: (chapter: T) => ChapterInfo, grouping: EpubGrouping, sort: EpubSort): ChapterGroup<T>[] {
+	const groupOf = (chapter: T): string | undefined => {
+		const { source, publisher, categories } = info(chapter)
+		if (grouping === 'source') return source
+		if (grouping === 'publisher') return publisher
+		if (grouping === 'category') return categories?.[0]
+		return ''
+	}
+
+	const groups = new Map<string, T[]>()
+	const ungrouped: T[] = []
+	for (const chapter of chapters) {
+		const title = groupOf(chapter)
+		if (title === undefined) {
+			ungrouped.push(chapter)
+			continue
+		}
+		if (!groups.has(title)) {
+			groups.set(title, [])
+		}
+		groups.get(title)!.push(chapter)
+	}
+
+	let out = [...groups.entries()].map(([title, chapters]) => ({ title, chapters }))
+	if (grouping === 'category' || grouping === 'publisher') {
+		out.sort((a, b) => a.title.localeCompare(b.title))
+	}
+	if (ungrouped.length > 0) {
+		out.push({ title: grouping === 'category' ? 'Uncategorized' : 'Other', chapters: ungrouped })
+	}
+	out = out.filter(group => group.chapters.length > 0)
+
+	const compare: Record<EpubSort, ((a: T, b: T) => number) | undefined> = {
+		feed: undefined,
+		newest: (a, b) => (info(b).date ?? 0) - (info(a).date ?? 0),
+		oldest: (a, b) => (info(a).date ?? 0) - (info(b).date ?? 0),
+		title: (a, b) => a.title.localeCompare(b.title),
+	}
+	const sorter = compare[sort]
+	if (sorter) {
+		for (const group of out) {
+			// Array.prototype.sort is stable, so ties keep the fetched order
+			group.chapters.sort(sorter)
+		}
+	}
+	return out
+}
+
+/** An entry of the table of contents, pointing at a section by the order it was added in. */
+export interface TocEntry {
+	title: string
+	section: number
+	children?: TocEntry[]
+}
+
+/**
+ * Escapes text for XHTML content and attribute values.
+ */
+export function escapeXml(text: string) {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Replaces the flat navigation which nodepub generates with a nested one, as
+ * an EPUB 3 navigation document and in the NCX of EPUB 2 readers.
+ *
+ * nodepub names sections `s<n>.xhtml` in the order they were added. If the
+ * files do not match `sectionCount`, or the NCX or package file is missing,
+ * nothing is changed and an error describes what was expected.
+ */
+export function applyNestedToc(files: NodepubFile[], toc: TocEntry[], sectionCount: number) {
+	const sectionFiles = files
+		.map(file => ({ file, index: /^s(\d+)\.xhtml$/.exec(file.name)?.[1] }))
+		.filter((f): f is { file: NodepubFile, index: string } => f.index !== undefined)
+		.sort((a, b) => parseInt(a.index, 10) - parseInt(b.index, 10))
+	if (sectionFiles.length !== sectionCount || sectionFiles.some((f, i) => parseInt(f.index, 10) !== i + 1)) {
+		throw new Error(`Expected ePub sections s1.xhtml to s${sectionCount}.xhtml, found ${sectionFiles.map(f => f.file.name).join(', ') || 'none'}`)
+	}
+	const ncx = files.find(file => file.name.endsWith('.ncx'))
+	if (typeof ncx?.content !== 'string' || !/<navMap>[\s\S]*<\/navMap>/.test(ncx.content)) {
+		throw new Error('Expected an NCX file with a navMap')
+	}
+	const opf = files.find(file => file.name.endsWith('.opf'))
+	if (typeof opf?.content !== 'string' || !opf.content.includes('</manifest>')) {
+		throw new Error('Expected a package file with a manifest')
+	}
+	const hrefOf = (entry: TocEntry) => `content/${sectionFiles[entry.section].file.name}`
+
+	const navItems = (entries: TocEntry[]): string => `<ol>\n${entries.map(entry => {
+		const children = entry.children?.length ? `\n${navItems(entry.children)}` : ''
+		return `<li><a href="${hrefOf(entry)}">${escapeXml(entry.title)}</a>${children}</li>`
+	}).join('\n')}\n</ol>`
+	const nav = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>Contents</title></head>
+<body>
+<nav epub:type="toc" id="toc">
+<h1>Contents</h1>
+${navItems(toc)}
+</nav>
+</body>
+</html>`
+	files.push({ name: 'nested-nav.xhtml', folder: 'OEBPF', content: nav })
+
+	let playOrder = 0
+	const navPoints = (entries: TocEntry[]): string => entries.map(entry => {
+		const order = ++playOrder
+		const children = entry.children?.length ? `\n${navPoints(entry.children)}` : ''
+		return `<navPoint id="navpoint-${order}" playOrder="${order}"><navLabel><text>${escapeXml(entry.title)}</text></navLabel><content src="${hrefOf(entry)}"/>${children}</navPoint>`
+	}).join('\n')
+	const navMap = `<navMap>\n${navPoints(toc)}\n</navMap>`
+
+	ncx.content = ncx.content.replace(/<navMap>[\s\S]*<\/navMap>/, navMap)
+	// Only one manifest item can be the navigation document
+	opf.content = opf.content
+		.replace(/\s+properties=["']nav["']/g, '')
+		.replace('</manifest>', `<item id="nested-nav" href="nested-nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>\n</manifest>`)
+}
@@ -0,0 +1,424 @@
+import { requestUrl } from 'obsidian';
+import { Transport, TransportResponse } from './transport';
+
+const FEEDLY_API = 'https://cloud.feedly.com/v3/'
+
+/** Attempts for a GET request which fails with a network or server error. */
+const MAX_ATTEMPTS = 4
+
+/** Delay before the first retry, doubled for every retry after it. */
+const RETRY_DELAY = 1000
+
+/** OAuth client of developer tokens, which their refresh tokens are issued to. */
+const DEV_CLIENT_ID = 'feedlydev'
+const DEV_CLIENT_SECRET = 'feedlydev'
+
+export interface FeedlyArticle {
+	id: string;
+	title: string;
+	author?: string;
+	canonicalUrl?: string;
+	published?: number;
+	crawled?: number;
+	origin?: {
+		title: string;
+		streamId?: string;
+	};
+	/** Feedly categories of the feed the article is from */
+	categories?: {
+		id: string;
+		label?: string;
+	}[];
+	content?: {
+		content?: string;
+	};
+	summary?: {
+		content?: string;
+	};
+	fullContent?: string;
+}
+
+/** An item of the annotation journal, with the annotated entry. */
+export interface FeedlyAnnotatedEntry {
+	/** Journal ID of the annotation, when Feedly provides one */
+	id?: string
+	annotation: {
+		highlight?: {
+			text: string
+		}
+		comment?: string
+	}
+	entry: {
+		canonicalUrl: string
+		id: string
+		published?: number
+		crawled: number
+		author: string
+		title: string
+		origin?: {
+			title: string
+		}
+		categories?: {
+			id: string
+			label?: string
+		}[]
+		/** Boards the entry was saved to */
+		tags?: {
+			id: string
+			label?: string
+		}[]
+		keywords?: string[]
+		entities?: {
+			id: string
+			label?: string
+		}[]
+	}
+	created: number
+}
+
+export interface FeedlyStream<T> {
+	items: T[]
+	continuation?: string
+}
+
+export interface FeedlyAnnotationJournal {
+	entries: FeedlyAnnotatedEntry[]
+	continuation?: string
+}
+
+export interface FeedlyTag {
+	id: string
+	label?: string
+}
+
+export interface FeedlySubscription {
+	id: string
+	title?: string
+	website?: string
+	iconUrl?: string
+	visualUrl?: string
+	categories?: {
+		id: string
+		label?: string
+	}[]
+}
+
+export interface FeedlyProfile {
+	id: string
+	email?: string
+	fullName?: string
+	givenName?: string
+	familyName?: string
+}
+
+/** A new access token, from refreshing the previous one. */
+export interface FeedlyToken {
+	accessToken: string
+	/** When the access token expires, in milliseconds since the epoch */
+	expiresAt: number
+	userId?: string
+	/** Replaces the refresh token, when Feedly issues a new one */
+	refreshToken?: string
+}
+
+export interface NewFeedlyAnnotation {
+	entryId: string
+	highlight?: string
+	comment?: string
+}
+
+/**
+ * Usage of the API rate limit, from the headers of the latest response.
+ */
+export interface FeedlyRateLimit {
+	/** Calls made in the current period */
+	count?: number
+	/** Calls allowed in each period */
+	limit?: number
+	/** When the current period ends, in milliseconds since the epoch */
+	resetAt?: number
+}
+
+/**
+ * A request which Feedly rejected, or which never reached it.
+ */
+export class FeedlyError extends Error {
+	constructor(message: string, public status?: number) {
+		super(message)
+		this.name = 'FeedlyError'
+	}
+}
+
+/** The access token is missing, expired or revoked. */
+export class FeedlyAuthError extends FeedlyError {
+	constructor(status: number, message = 'Access token expired, request a new one') {
+		super(message, status)
+		this.name = 'FeedlyAuthError'
+	}
+}
+
+/** The API rate limit was reached. */
+export class FeedlyRateLimitError extends FeedlyError {
+	constructor(public resetAt?: number) {
+		super('API rate limit reached', 429)
+		this.name = 'FeedlyRateLimitError'
+	}
+}
+
+/** Feedly kept failing with a server error. */
+export class FeedlyServerError extends FeedlyError {
+	constructor(status: number) {
+		super(`Feedly is unavailable (status ${status})`, status)
+		this.name = 'FeedlyServerError'
+	}
+}
+
+/** Feedly could not be reached. */
+export class FeedlyNetworkError extends FeedlyError {
+	constructor(cause: unknown) {
+		super(`Cannot reach Feedly: ${cause instanceof Error ? cause.message : cause}`)
+		this.name = 'FeedlyNetworkError'
+	}
+}
+
+export class FeedlyClient {
+	private rateLimitUsage: FeedlyRateLimit = {}
+	private refreshHandler?: () => Promise<string | undefined>
+
+	constructor(private accessToken?: string, private transport: Transport = requestUrl) {}
+
+	setAccessToken(accessToken?: string) {
+		this.accessToken = accessToken
+	}
+
+	/**
+	 * Sets how to renew the access token when Feedly rejects it. The handler
+	 * returns the new access token, or undefined if it cannot renew it.
+	 */
+	setRefreshHandler(handler?: () => Promise<string | undefined>) {
+		this.refreshHandler = handler
+	}
+
+	/**
+	 * Trades a refresh token for a new access token. Does not use the current
+	 * access token, so it works after that one expired.
+	 */
+	async refreshAccessToken(refreshToken: string): Promise<FeedlyToken> {
+		const res = await this.request<{ access_token: string, expires_in: number, id?: string, refresh_token?: string }>('auth/token', 'POST', {
+			refresh_token: refreshToken,
+			client_id: DEV_CLIENT_ID,
+			client_secret: DEV_CLIENT_SECRET,
+			grant_type: 'refresh_token',
+		}, false)
+		if (!res?.access_token) {
+			throw new FeedlyAuthError(400, 'Feedly did not return an access token')
+		}
+		this.accessToken = res.access_token
+		return {
+			accessToken: res.access_token,
+			expiresAt: Date.now() + res.expires_in * 1000,
+			userId: res.id,
+			refreshToken: res.refresh_token,
+		}
+	}
+
+	/**
+	 * Fetches the account of the access token, which also checks that it works.
+	 */
+	async getProfile(): Promise<FeedlyProfile> {
+		return await this.request<FeedlyProfile>('profile')
+	}
+
+	/**
+	 * Rate limit usage as of the latest response, empty until the first one.
+	 */
+	get rateLimit(): FeedlyRateLimit {
+		return { ...this.rateLimitUsage }
+	}
+
+	/**
+	 * Calls left before the rate limit is reached, if Feedly reported it.
+	 */
+	get remainingCalls(): number | undefined {
+		const { count, limit, resetAt } = this.rateLimitUsage
+		if (count === undefined || limit === undefined) return undefined
+		if (resetAt !== undefined && resetAt < Date.now()) return limit
+		return Math.max(0, limit - count)
+	}
+
+	/**
+	 * Fetches a page of a stream, such as a board, category or feed.
+	 */
+	async getStreamContents(streamId: string, options: { count?: number, continuation?: string, unreadOnly?: boolean } = {}) {
+		const query = new URLSearchParams({ streamId, count: String(options.count ?? 250) })
+		if (options.unreadOnly) {
+			query.set('unreadOnly', 'true')
+		}
+		if (options.continuation) {
+			query.set('continuation', options.continuation)
+		}
+		const res = await this.request<Partial<FeedlyStream<FeedlyArticle>>>(`streams/contents?${query}`)
+		return { items: res?.items ?? [], continuation: res?.continuation } as FeedlyStream<FeedlyArticle>
+	}
+
+	/**
+	 * Fetches a single entry with its content.
+	 */
+	async getEntry(entryId: string): Promise<FeedlyArticle | undefined> {
+		const res = await this.request<FeedlyArticle[]>(`entries/${encodeURIComponent(entryId)}`)
+		return Array.isArray(res) ? res[0] : undefined
+	}
+
+	/**
+	 * Fetches a page of the annotation journal, oldest changes since `newerThan` first.
+	 */
+	async getAnnotationJournal(options: { newerThan?: number, count?: number, continuation?: string } = {}) {
+		const query = new URLSearchParams({
+			newerThan: String(options.newerThan ?? 0),
+			withEntries: 'true',
+			count: String(options.count ?? 100),
+		})
+		if (options.continuation) {
+			query.set('continuation', options.continuation)
+		}
+		const res = await this.request<Partial<FeedlyAnnotationJournal>>(`annotations/journal?${query}`)
+		return { entries: res?.entries ?? [], continuation: res?.continuation } as FeedlyAnnotationJournal
+	}
+
+	/**
+	 * Creates a highlight, a comment or both on an entry.
+	 */
+	async createAnnotation(annotation: NewFeedlyAnnotation) {
+		return await this.request<{ id?: string, created?: number } | undefined>('annotations', 'POST', {
+			entryId: annotation.entryId,
+			highlight: annotation.highlight ? { text: annotation.highlight } : undefined,
+			comment: annotation.comment,
+		})
+	}
+
+	/**
+	 * Lists the boards of the user.
+	 */
+	async getTags(): Promise<FeedlyTag[]> {
+		const res = await this.request<FeedlyTag[]>('tags')
+		return Array.isArray(res) ? res : []
+	}
+
+	/**
+	 * Lists the feeds the user follows.
+	 */
+	async getSubscriptions(): Promise<FeedlySubscription[]> {
+		const res = await this.request<FeedlySubscription[]>('subscriptions')
+		return Array.isArray(res) ? res : []
+	}
+
+	/**
+	 * Marks entries as read.
+	 */
+	async markAsRead(entryIds: string[]) {
+		if (entryIds.length === 0) return
+		await this.request('markers', 'POST', {
+			action: 'markAsRead',
+			type: 'entries',
+			entryIds,
+		})
+	}
+
+	/**
+	 * Core request engine. Retries network and server errors of GET requests
+	 * with exponential backoff, and turns every other failure into a typed
+	 * `FeedlyError`. Other requests may have reached Feedly before failing, so
+	 * replaying them could create an annotation twice.
+	 */
+	private async request<T>(path: string, method = 'GET', data?: unknown, authorize = true): Promise<T> {
+		console.debug(method, `${FEEDLY_API}${path}`)
+		const attempts = method === 'GET' ? MAX_ATTEMPTS : 1
+		let attempt = 0
+		let refreshed = false
+		while (true) {
+			attempt++
+			const headers: Record<string, string> = { Accept: 'application/json' }
+			if (authorize) {
+				headers.Authorization = `Bearer ${this.accessToken ?? ''}`
+			}
+			let res: TransportResponse
+			try {
+				res = await this.transport({
+					url: `${FEEDLY_API}${path}`,
+					method,
+					headers,
+					contentType: data === undefined ? undefined : 'application/json',
+					body: data === undefined ? undefined : JSON.stringify(data),
+					throw: false,
+				})
+			} catch (e) {
+				console.debug(e)
+				if (attempt < attempts) {
+					await sleep(RETRY_DELAY * 2 ** (attempt - 1))
+					continue
+				}
+				throw new FeedlyNetworkError(e)
+			}
+
+			this.updateRateLimit(res.headers)
+			if (res.status === 401 || res.status === 403) {
+				if (authorize && !refreshed && this.refreshHandler) {
+					refreshed = true
+					const accessToken = await this.refreshHandler()
+					if (accessToken) {
+						this.accessToken = accessToken
+						continue
+					}
+				}
+				throw new FeedlyAuthError(res.status, authorize ? undefined : 'Refresh token rejected, request a new one')
+			}
+			if (res.status === 429) {
+				// Retrying only spends calls which the limit no longer allows
+				throw new FeedlyRateLimitError(this.rateLimitUsage.resetAt)
+			}
+			if (res.status >= 500) {
+				if (attempt < attempts) {
+					await sleep(RETRY_DELAY * 2 ** (attempt - 1))
+					continue
+				}
+				throw new FeedlyServerError(res.status)
+			}
+			if (res.status >= 400) {
+				throw new FeedlyError(`Feedly rejected the request (status ${res.status}): ${errorMessage(res)}`, res.status)
+			}
+			if (!res.text) {
+				return undefined as T
+			}
+			return res.json as T
+		}
+	}
+
+	/**
+	 * Reads `X-RateLimit-Count`, `X-RateLimit-Limit` and `X-RateLimit-Reset`,
+	 * the last of which counts the seconds until the limit resets.
+	 */
+	private updateRateLimit(headers: Record<string, string>) {
+		const header = (name: string) => {
+			const key = Object.keys(headers).find(k => k.toLowerCase() === name)
+			const value = key ? parseInt(headers[key], 10) : NaN
+			return isNaN(value) ? undefined : value
+		}
+		const count = header('x-ratelimit-count')
+		const limit = header('x-ratelimit-limit')
+		const reset = header('x-ratelimit-reset')
+		if (count === undefined && limit === undefined && reset === undefined) return
+		this.rateLimitUsage = {
+			count: count ?? this.rateLimitUsage.count,
+			limit: limit ?? this.rateLimitUsage.limit,
+			resetAt: reset !== undefined ? Date.now() + reset * 1000 : this.rateLimitUsage.resetAt,
+		}
+	}
+}
+
+function errorMessage(res: TransportResponse) {
+	try {
+		return res.json?.errorMessage ?? res.text
+	} catch {
+		return res.text
+	}
+}
@@ -0,0 +1,242 @@
+import { App, ItemView, WorkspaceLeaf, normalizePath } from 'obsidian';
+
+export const SYNC_HISTORY_VIEW = 'feedly-sync-history'
+
+/** Runs kept in the history, oldest dropped first. */
+const MAX_RUNS = 50
+
+/** Files and skipped items kept per run, to bound the size of the history file. */
+const MAX_ITEMS = 500
+
+export interface SyncRun {
+	name: string
+	started: number
+	ended?: number
+	status: 'running' | 'done' | 'failed' | 'rate-limited'
+	/** Totals by what was counted, e.g. `annotations synced` */
+	counts: Record<string, number>
+	skipped: { item: string, reason: string }[]
+	errors: string[]
+	/** Times the run reached the Feedly rate limit, and when the latest one resets */
+	rateLimitHits: number
+	rateLimitResetAt?: number
+	/** Paths of the files the run created or modified */
+	files: string[]
+}
+
+/**
+ * Records what happens during one run of a command.
+ */
+export class SyncRunLog {
+	constructor(readonly run: SyncRun) {}
+
+	count(name: string, amount = 1) {
+		this.run.counts[name] = (this.run.counts[name] ?? 0) + amount
+	}
+
+	skip(item: string, reason: string) {
+		this.count('skipped')
+		if (this.run.skipped.length < MAX_ITEMS) {
+			this.run.skipped.push({ item, reason })
+		}
+	}
+
+	error(message: string) {
+		this.run.errors.push(message)
+	}
+
+	rateLimit(resetAt?: number) {
+		this.run.rateLimitHits++
+		this.run.rateLimitResetAt = resetAt
+	}
+
+	file(path: string) {
+		if (!this.run.files.includes(path) && this.run.files.length < MAX_ITEMS) {
+			this.run.files.push(path)
+		}
+	}
+}
+
+/**
+ * Past runs of every command, kept in a file of the plugin folder so they
+ * survive restarts without growing the synced settings.
+ */
+export class SyncHistory {
+	runs: SyncRun[] = []
+	private listeners = new Set<() => void>()
+
+	constructor(private app: App, private path: string) {
+		this.path = normalizePath(path)
+	}
+
+	async load() {
+		try {
+			if (await this.app.vault.adapter.exists(this.path)) {
+				this.runs = JSON.parse(await this.app.vault.adapter.read(this.path))
+			}
+		} catch (e) {
+			console.error('Cannot read the sync history', e)
+			this.runs = []
+		}
+		// Runs which were interrupted by closing Obsidian
+		for (const run of this.runs) {
+			if (run.status === 'running') {
+				run.status = 'failed'
+				run.errors.push('Obsidian closed before the run finished')
+			}
+		}
+	}
+
+	async start(name: string): Promise<SyncRunLog> {
+		const run: SyncRun = {
+			name,
+			started: Date.now(),
+			status: 'running',
+			counts: {},
+			skipped: [],
+			errors: [],
+			rateLimitHits: 0,
+			files: [],
+		}
+		this.runs.push(run)
+		this.runs.splice(0, Math.max(0, this.runs.length - MAX_RUNS))
+		await this.save()
+		return new SyncRunLog(run)
+	}
+
+	async finish(log: SyncRunLog) {
+		const { run } = log
+		run.ended = Date.now()
+		run.status = run.errors.length > 0 ? 'failed' : run.rateLimitHits > 0 ? 'rate-limited' : 'done'
+		await this.save()
+	}
+
+	async clear() {
+		this.runs = this.runs.filter(run => run.status === 'running')
+		await this.save()
+	}
+
+	/**
+	 * Calls `listener` whenever a run starts or finishes.
+	 *
+	 * @returns A function which stops calling it.
+	 */
+	subscribe(listener: () => void) {
+		this.listeners.add(listener)
+		return () => this.listeners.delete(listener)
+	}
+
+	private async save() {
+		try {
+			await this.app.vault.adapter.write(this.path, JSON.stringify(this.runs))
+		} catch (e) {
+			console.error('Cannot save the sync history', e)
+		}
+		this.listeners.forEach(listener => listener())
+	}
+}
+
+const STATUS_LABELS: Record<SyncRun['status'], string> = {
+	'running': 'Running',
+	'done': 'Done',
+	'failed': 'Failed',
+	'rate-limited': 'Stopped at the rate limit',
+}
+
+function formatDuration(ms: number) {
+	const seconds = Math.round(ms / 1000)
+	if (seconds < 60) return `${seconds}s`
+	return `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+}
+
+/**
+ * Lists past runs, newest first, with their counts, errors, skipped items
+ * and links to the files they changed.
+ */
+export class SyncHistoryView extends ItemView {
+	private unsubscribe?: () => void
+
+	constructor(leaf: WorkspaceLeaf, private history: SyncHistory) {
+		super(leaf)
+	}
+
+	getViewType() {
+		return SYNC_HISTORY_VIEW
+	}
+
+	getDisplayText() {
+		return 'Feedly sync history'
+	}
+
+	getIcon() {
+		return 'history'
+	}
+
+	async onOpen() {
+		this.unsubscribe = this.history.subscribe(() => this.render())
+		this.render()
+	}
+
+	async onClose() {
+		this.unsubscribe?.()
+	}
+
+	private render() {
+		const el = this.contentEl
+		el.empty()
+		el.addClass('feedly-history')
+
+		const header = el.createDiv({ cls: 'feedly-history-header' })
+		header.createEl('h4', { text: 'Sync history' })
+		header.createEl('button', { text: 'Clear' }).addEventListener('click', () => this.history.clear())
+
+		if (this.history.runs.length === 0) {
+			el.createEl('p', { text: 'No runs yet.', cls: 'feedly-history-empty' })
+			return
+		}
+
+		for (const run of [...this.history.runs].reverse()) {
+			const details = el.createEl('details', { cls: `feedly-history-run is-${run.status}` })
+			const duration = run.ended ? ` · ${formatDuration(run.ended - run.started)}` : ''
+			details.createEl('summary', { text: `${run.name} · ${new Date(run.started).toLocaleString()}${duration} · ${STATUS_LABELS[run.status]}` })
+
+			const counts = Object.entries(run.counts)
+			if (counts.length > 0 || run.rateLimitHits > 0) {
+				const list = details.createEl('ul')
+				for (const [name, count] of counts) {
+					list.createEl('li', { text: `${count} ${name}` })
+				}
+				if (run.rateLimitHits > 0) {
+					const reset = run.rateLimitResetAt ? `, resets at ${new Date(run.rateLimitResetAt).toLocaleString()}` : ''
+					list.createEl('li', { text: `Reached the Feedly rate limit ${run.rateLimitHits} time(s)${reset}` })
+				}
+			}
+
+			if (run.errors.length > 0) {
+				const list = details.createEl('ul', { cls: 'feedly-history-errors' })
+				for (const error of run.errors) {
+					list.createEl('li', { text: error })
+				}
+			}
+
+			if (run.skipped.length > 0) {
+				const skipped = details.createEl('details')
+				skipped.createEl('summary', { text: `Skipped (${run.skipped.length})` })
+				const list = skipped.createEl('ul')
+				for (const { item, reason } of run.skipped) {
+					list.createEl('li', { text: `${item}: ${reason}` })
+				}
+			}
+
+			if (run.files.length > 0) {
+				const files = details.createEl('details')
+				files.createEl('summary', { text: `Files (${run.files.length})` })
+				const list = files.createEl('ul')
+				for (const path of run.files) {
+					const link = list.createEl('li').createEl('a', { text: path, cls: 'internal-link' })
+					link.addEventListener('click', () => this.app.workspace.openLinkText(path, '', false))
+				}
+			}
+		}
+	}
+}
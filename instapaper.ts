@@ -1,4 +1,5 @@
 import { Notice, requestUrl, RequestUrlParam } from 'obsidian';
+import { Transport } from './transport';
 import OAuth from 'oauth-1.0a';
 import hmacSHA1 from 'crypto-js/hmac-sha1';
 import Base64 from 'crypto-js/enc-base64';
@@ -7,7 +8,7 @@ export class InstapaperClient {
     private oauth: OAuth;
     private token?: OAuth.Token;
 
-    constructor(consumerKey: string, consumerSecret: string, tokenKey?: string, tokenSecret?: string) {
+    constructor(consumerKey: string, consumerSecret: string, tokenKey?: string, tokenSecret?: string, private transport: Transport = requestUrl) {
         // Initialize the OAuth 1.0a signer
         this.oauth = new OAuth({
             consumer: { key: consumerKey, secret: consumerSecret },
@@ -167,8 +168,8 @@ export class InstapaperClient {
         };
 
         try {
-            // Using Obsidian's requestUrl bypasses browser CORS limitations
-            const response = await requestUrl(options);
+            // The default transport, Obsidian's requestUrl, bypasses browser CORS limitations
+            const response = await this.transport(options);
             return response.text; 
         } catch (error) {
             console.error("Instapaper API Request Failed:", error);
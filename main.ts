@@ -1,30 +1,33 @@
-import { App, FileManager, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, normalizePath, requestUrl } from 'obsidian';
+import { App, FileManager, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, Vault, normalizePath, requireApiVersion } from 'obsidian';
 import { InstapaperClient } from './instapaper';
+import { FeedlyAnnotatedEntry, FeedlyArticle, FeedlyAuthError, FeedlyClient, FeedlyProfile, FeedlyRateLimitError } from './feedly';
+import { renderPathTemplate, renderTemplate, sanitizePathSegment, TemplateVariables } from './template';
+import { EntryIndex } from './entry-index';
+import { SYNC_HISTORY_VIEW, SyncHistory, SyncHistoryView, SyncRunLog } from './history';
+import { confirmOverwrite, formatSize, openPreview, PreviewGroup } from './preview';
+import { RecordingTransport, TransportMode } from './transport';
+import { EpubImage, EpubImageCollector } from './epub-images';
+import { CoverStyle, renderCover } from './epub-cover';
+import { DeliveryLog } from './deliveries';
+import { ContentRule, countWords, describeRule, droppedBeforeText, droppedBy, dropReason, RuleArticle, RuleField, RuleOperator, RuleSample, TEXT_FIELDS } from './rules';
+import { CHECKLIST_PROPERTY, ChecklistItem, markApplied, renderChecklist, tickedItems } from './checklist';
+import { checklistPath, defaultEdition, EditionModal, EpubEdition, isIssueFile, issueIdentifier, issuePath, issueTitle, newEdition, nextIssue, resolveSources } from './editions';
+import { applyNestedToc, ChapterGroup, ChapterInfo, EpubGrouping, escapeXml, EpubSort, groupChapters, TocEntry } from './epub-toc';
+import { htmlToMarkdown } from './markdown';
+import { CleaningProfile, CleaningProfileModal, cleanContent, findProfile } from './cleaning';
 import nodepub, { NodepubFile } from 'nodepub';
 import JSZip from 'jszip';
-
-interface FeedlyArticle {
-	id: string;
-	title: string;
-	author?: string;
-	canonicalUrl?: string;
-	published?: number;
-	crawled?: number;
-	origin?: {
-		title: string;
-	};
-	content?: {
-		content?: string;
-	};
-	summary?: {
-		content?: string;
-	};
-	fullContent?: string;
-}
+import MD5 from 'crypto-js/md5';
 
 interface FeedlySettings {
 	userId?: string
 	accessToken?: string
+	/** Renews the access token automatically when set */
+	refreshToken?: string
+	/** When the access token expires */
+	accessTokenExpires?: number
+	/** Whether `accessTokenExpires` is a guess from when a developer token was pasted, rather than from Feedly */
+	accessTokenExpiresEstimated?: boolean
 	/** Timestamp of last sync. Used for querying. */
 	lastSync?: number
 	/** Stores the last time when a full sync began. */
@@ -33,73 +36,180 @@ interface FeedlySettings {
 	continuationToken?: string
 	/** Path for folder to save all these files */
 	annotationsFolder?: string
-	/** Comma-separated list of publishers to exclude from epub generation */
+	/** ePubs with their own sources, metadata and folder, each with a command */
+	epubEditions?: EpubEdition[]
+	/** @deprecated Replaced by content rules, and converted to exclude rules on load */
 	filteredPublishers?: string
+	/** Rules which keep or drop ePub articles, the first matching one winning */
+	contentRules?: ContentRule[]
+	/** Whether ePub articles which match no content rule are kept */
+	keepUnmatchedArticles?: boolean
+	/** Extra cleaning of the articles of some publishers or feeds, the first matching one winning */
+	cleaningProfiles?: CleaningProfile[]
+	/** Download the images of articles into the ePub instead of removing them */
+	epubImages?: boolean
+	/** Convert ePub images to grayscale for e-ink readers */
+	epubImageGrayscale?: boolean
+	/** Total size of the images of one ePub, in megabytes */
+	epubImageBudget?: number
+	/** Look of the generated ePub cover */
+	coverStyle?: CoverStyle | 'none'
+	/** What ePub chapters are grouped by in the table of contents */
+	epubGrouping?: EpubGrouping
+	/** Order of the ePub chapters inside each group */
+	epubSort?: EpubSort
 	instapaperConsumerKey?: string
 	instapaperConsumerSecret?: string
+	/** Account signed in to Instapaper, shown in the settings */
 	instapaperUsername?: string
+	/** @deprecated Replaced by the OAuth token, and removed from older settings on load */
 	instapaperPassword?: string
+	/** OAuth token from signing in to Instapaper, which is used instead of the password */
+	instapaperTokenKey?: string
+	instapaperTokenSecret?: string
 	instapaperLimit?: number
 	instapaperFoldersFileName?: string
 	feedlyBoardsFileName?: string
+	/** Show the changes to the board and folder lists before a manual sync overwrites them */
+	confirmListOverwrites?: boolean
+	/** Whether Feedly and Instapaper responses are recorded to fixtures, or replayed from them */
+	transportMode?: TransportMode
+	/** Template for the content of a new annotation note. Empty uses the default frontmatter. */
+	noteTemplate?: string
+	/** Template for each highlight or comment. Empty uses the default quote layout. */
+	annotationTemplate?: string
+	/** How reconciliation handles annotations deleted or edited in Feedly */
+	reconcileAction?: 'update' | 'flag'
+	/** Path of a new annotation note inside its folder, without the extension */
+	notePathTemplate?: string
+	/** Rules which send notes of some publishers or categories to another folder */
+	noteRoutes?: NoteRoute[]
+	/** Where the Feedly boards, categories and keywords of an entry are written */
+	tagMapping?: {
+		boards: TagTarget
+		categories: TagTarget
+		keywords: TagTarget
+	}
+	/** Set once the user picks where tags are written, so that the mapping older versions defaulted to can be turned off */
+	tagMappingChosen?: boolean
+	/** Prefix of the tags created from Feedly, e.g. `feedly` for `#feedly/board-name` */
+	tagPrefix?: string
+	/** Whether sync saves the full article in a collapsed callout of the note or in a linked note */
+	saveArticle?: 'none' | 'collapsed' | 'sibling'
+	/** Run the annotation sync when Obsidian starts */
+	syncOnStartup?: boolean
+	/** Minutes between scheduled runs of each job. Missing or 0 disables the schedule. */
+	jobIntervals?: Partial<Record<JobId, number>>
+	/** Timestamp of the last run of each job, shared by all devices */
+	jobLastRun?: Partial<Record<JobId, number>>
+	/** Held by the device running a job, so that devices syncing this file do not run jobs at the same time */
+	jobLock?: {
+		device: string
+		job: JobId
+		expires: number
+	}
+	/** Feedly jobs wait until this timestamp after reaching the API rate limit */
+	rateLimitedUntil?: number
 }
 
+/** Jobs which hold the job lock while they run. The IDs match their commands. */
+type JobId = 'sync' | 'epub' | 'sync-feedly-boards' | 'sync-instapaper-folders' | 'push-annotations' | 'reconcile-annotations'
 
+const JOB_NAMES: Record<JobId, string> = {
+	'sync': 'Sync annotated articles',
+	'epub': 'Generate ePub',
+	'sync-feedly-boards': 'Sync Feedly boards',
+	'sync-instapaper-folders': 'Sync Instapaper folders',
+	'push-annotations': 'Push annotations',
+	'reconcile-annotations': 'Reconcile annotations',
+}
 
-interface FeedlyAnnotatedEntry {
-	annotation: {
-		highlight?: {
-			text: string
-		}
-		comment?: string
-	}
-	entry: {
-		canonicalUrl: string
-		id: string
-		published?: number
-		crawled: number
-		author: string
-		title: string
-		origin?: {
-			title: string
-		}
-	}
-	created: number
+/** Jobs which can run on a schedule. */
+const SCHEDULED_JOBS: JobId[] = ['sync', 'epub', 'sync-feedly-boards', 'sync-instapaper-folders']
+
+/** Jobs which call the Feedly API, and so wait for its rate limit to reset. */
+const FEEDLY_JOBS: JobId[] = ['sync', 'epub', 'sync-feedly-boards', 'push-annotations', 'reconcile-annotations']
+
+/** How often the scheduler checks for due jobs. */
+const SCHEDULER_TICK = 60 * 1000
+
+/** A lock older than this is left over from a device that closed mid-run. */
+const JOB_LOCK_TIMEOUT = 60 * 60 * 1000
+
+/** How long to wait before trying Feedly again after reaching its rate limit. */
+const RATE_LIMIT_RETRY = 60 * 60 * 1000
+
+/** Page where Feedly issues developer access tokens. */
+const FEEDLY_DEV_TOKEN_URL = 'https://feedly.com/v3/auth/dev'
+
+/** Feedly entries marked as read per request. */
+const MARKERS_BATCH = 500
+
+/** Images in ePubs are scaled down to this width, in pixels. */
+const EPUB_IMAGE_WIDTH = 600
+
+/**
+ * Developer access tokens expire about a month after they are issued. Feedly
+ * does not tell when a pasted one was issued, so expiry dates from it are estimates.
+ */
+const DEV_TOKEN_LIFETIME = 30 * 24 * 60 * 60 * 1000
+
+/** Access tokens are renewed, or a warning shown, this long before they expire. */
+const TOKEN_EXPIRY_WARNING = 3 * 24 * 60 * 60 * 1000
+
+/**
+ * Writes Feedly organization as Obsidian `tags`, as a list property named
+ * after the kind (`boards`, `categories` or `keywords`), or not at all.
+ */
+type TagTarget = 'tags' | 'property' | 'none'
+
+/**
+ * Sends new annotation notes whose publisher or Feedly category contains
+ * `value` to `folder` instead of the annotations folder.
+ */
+interface NoteRoute {
+	match: 'publisher' | 'category'
+	value: string
+	folder: string
 }
 
+
+
 const DEFAULT_SETTINGS: FeedlySettings = {
 	annotationsFolder: 'Feedly Annotations',
 	instapaperFoldersFileName: 'Instapaper Folders',
-	feedlyBoardsFileName: 'Feedly Boards'
+	feedlyBoardsFileName: 'Feedly Boards',
+	confirmListOverwrites: true,
+	epubImageGrayscale: true,
+	epubImageBudget: 10,
+	coverStyle: 'classic',
+	epubGrouping: 'source',
+	epubSort: 'feed',
+	notePathTemplate: '{{title}}',
+	tagMapping: {
+		boards: 'none',
+		categories: 'none',
+		keywords: 'none',
+	},
+	tagPrefix: 'feedly',
 }
 
 
 
 
-const apiCall = async (accessToken: string, path: string, method = 'GET', data?: unknown) => {
- 	console.debug(`https://cloud.feedly.com/v3/${path}`)
-	console.debug(method, data)
-    try {
-		const res = await requestUrl({
-			url: `https://cloud.feedly.com/v3/${path}`,
-			method,
-			headers: {
-				Authorization: `Bearer ${accessToken}`,
-				Accept: 'application/json',
-			},
-			body: JSON.stringify(data) ?? undefined
-		})
-  	    return res.json
-    } catch (e) {
-		console.debug(e)
-		throw new Error(e)
-	}
-}
-
 function sanitizeFrontmatter(v: string = '') {
   return v.replace(/:/g, ' - ')
 }
 
+/** Host of a URL without `www.`, used as the publisher of Instapaper articles. */
+function urlHost(url: string) {
+	try {
+		return new URL(url).hostname.replace(/^www\./, '')
+	} catch {
+		return undefined
+	}
+}
+
 function dateToJournal(date: Date) {
 	return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`
 }
@@ -147,7 +257,7 @@ interface SyncedArticleGroup {
  * @param defaultDateLabel - Fallback label for date metadata if not specified per item or group (defaults to "Saved").
  * @returns Object containing the formatted Markdown string and the total count of rendered articles.
  */
-function generateGroupedArticlesMarkdown(
+export function generateGroupedArticlesMarkdown(
 	headerTitle: string,
 	groups: SyncedArticleGroup[],
 	defaultDateLabel: string = 'Saved'
@@ -188,6 +298,13 @@ function generateGroupedArticlesMarkdown(
 	return { content: markdownContent, totalArticles };
 }
 
+/**
+ * Removes the `Last synced` line of a synced list, which changes on every sync.
+ */
+function withoutSyncTime(content: string) {
+	return content.replace(/^\*Last synced: .*\*$/m, '')
+}
+
 /**
  * Saves or updates a Markdown document in the specified vault folder.
  *
@@ -195,9 +312,10 @@ function generateGroupedArticlesMarkdown(
  * @param folderName - Target folder directory in the vault.
  * @param fileName - Target Markdown file name (without `.md` extension).
  * @param content - Markdown content to write to the file.
- * @returns The normalized path of the written file.
+ * @param confirm - Show the changes to an existing file and ask before overwriting it, unless only the sync time changed.
+ * @returns The normalized path of the written file, or undefined if the user kept the existing file.
  */
-async function saveSyncedMarkdownFile(app: App, folderName: string, fileName: string, content: string): Promise<string> {
+async function saveSyncedMarkdownFile(app: App, folderName: string, fileName: string, content: string, confirm = false): Promise<string | undefined> {
 	const doesFolderExist = app.vault.getFolderByPath(folderName);
 	if (!doesFolderExist) {
 		await app.vault.createFolder(folderName);
@@ -206,6 +324,10 @@ async function saveSyncedMarkdownFile(app: App, folderName: string, fileName: st
 	const filePath = normalizePath(`${folderName}/${fileName.trim()}.md`);
 	const obsidianFile = app.vault.getFileByPath(filePath);
 	if (obsidianFile) {
+		const existing = await app.vault.read(obsidianFile);
+		if (confirm && withoutSyncTime(existing) !== withoutSyncTime(content) && !await confirmOverwrite(app, filePath, existing, content)) {
+			return undefined;
+		}
 		await app.vault.modify(obsidianFile, content);
 	} else {
 		await app.vault.create(filePath, content);
@@ -232,69 +354,534 @@ async function setEntryFrontmatter(fileManager: FileManager, file: TFile, entry:
 	});
 }
 
-function getAppendContent(entry: FeedlyAnnotatedEntry) {
+/**
+ * Lists the labels of the user's boards, categories and keywords of an entry.
+ * Feedly's own `global.*` tags and categories, such as saved or all, are skipped.
+ */
+function getEntryLabels(entry: FeedlyAnnotatedEntry) {
+	const labelsOf = (items?: { id: string, label?: string }[]) => (items ?? [])
+		.filter(i => !i.id.includes('/global.'))
+		.map(i => i.label ?? i.id.split('/').pop() ?? '')
+		.filter(Boolean)
+	return {
+		boards: labelsOf(entry.entry.tags),
+		categories: labelsOf(entry.entry.categories),
+		keywords: [...(entry.entry.keywords ?? []), ...labelsOf(entry.entry.entities)],
+	}
+}
+
+/**
+ * Turns a label into a valid Obsidian tag, e.g. `Board Name` into `feedly/board-name`.
+ */
+function labelToTag(label: string, prefix: string) {
+	const slug = label.trim().toLowerCase()
+		.replace(/\s+/g, '-')
+		.replace(/[^\p{L}\p{N}_/-]/gu, '')
+	if (!slug) return undefined
+	const tag = prefix.trim() ? `${prefix.trim().replace(/^#|\/$/g, '')}/${slug}` : slug
+	// Tags cannot be only numbers
+	return /^[\d/]+$/.test(tag) ? undefined : tag
+}
+
+/**
+ * Adds the Feedly boards, categories and keywords of an entry to the note's
+ * frontmatter. Existing tags and values are kept, except tags under the tag
+ * prefix which the entry no longer has, such as a board it was removed from.
+ */
+async function setEntryTags(fileManager: FileManager, file: TFile, entry: FeedlyAnnotatedEntry, settings: FeedlySettings) {
+	const mapping = settings.tagMapping ?? DEFAULT_SETTINGS.tagMapping!
+	const prefix = (settings.tagPrefix ?? '').trim().replace(/^#|\/$/g, '')
+	const labels = getEntryLabels(entry)
+	const kinds = (['boards', 'categories', 'keywords'] as const)
+		.filter(kind => mapping[kind] !== 'none' && labels[kind].length > 0)
+	// Without a prefix, the tags of the plugin cannot be told apart from the user's
+	if (kinds.length === 0 && !prefix) return
+
+	const merge = (existing: unknown, values: string[]) => {
+		const current = Array.isArray(existing) ? existing : (typeof existing === 'string' ? [existing] : [])
+		return [...new Set([...current, ...values])]
+	}
+	const tags = kinds
+		.filter(kind => mapping[kind] === 'tags')
+		.flatMap(kind => labels[kind].map(label => labelToTag(label, prefix)))
+		.filter((tag): tag is string => tag !== undefined)
+	await fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+		if (tags.length > 0 || frontmatter.tags !== undefined) {
+			const owned = (tag: unknown) => prefix !== '' && typeof tag === 'string' && tag.replace(/^#/, '').startsWith(`${prefix}/`)
+			const kept = merge(frontmatter.tags, []).filter(tag => !owned(tag) || tags.includes(tag.replace(/^#/, '')))
+			frontmatter.tags = merge(kept, tags)
+		}
+		for (const kind of kinds.filter(k => mapping[k] === 'property')) {
+			frontmatter[kind] = merge(frontmatter[kind], labels[kind].map(sanitizeFrontmatter))
+		}
+	})
+}
+
+/**
+ * Builds the variables available to the note and annotation templates.
+ */
+function getTemplateVariables(entry: FeedlyAnnotatedEntry): TemplateVariables {
+	const published = new Date(entry.entry.published ?? entry.entry.crawled)
+	return {
+		title: entry.entry.title,
+		author: entry.entry.author,
+		publisher: entry.entry.origin?.title,
+		url: entry.entry.canonicalUrl,
+		feedlyUrl: `https://feedly.com/i/entry/${entry.entry.id}`,
+		entryId: entry.entry.id,
+		date: dateToJournal(new Date(entry.created)),
+		pubDate: dateToJournal(new Date(entry.entry.published ?? entry.entry.crawled)),
+		year: published.getFullYear().toString(),
+		month: (published.getMonth() + 1).toString().padStart(2, '0'),
+		day: published.getDate().toString().padStart(2, '0'),
+		category: entry.entry.categories?.[0]?.label,
+		highlight: entry.annotation?.highlight?.text,
+		comment: entry.annotation?.comment,
+	}
+}
+
+/**
+ * Picks the folder and name of a new annotation note, applying the first
+ * matching route and then the note path template.
+ *
+ * @returns The normalized path, without the `.md` extension.
+ */
+function getEntryNotePath(entry: FeedlyAnnotatedEntry, settings: FeedlySettings): string {
+	const publisher = (entry.entry.origin?.title ?? '').toLowerCase()
+	const categories = (entry.entry.categories ?? []).map(c => (c.label ?? '').toLowerCase())
+	const route = (settings.noteRoutes ?? []).find(r => {
+		const value = r.value.trim().toLowerCase()
+		if (!value || !r.folder.trim()) return false
+		return r.match === 'publisher'
+			? publisher.includes(value)
+			: categories.some(c => c.includes(value))
+	})
+	const folderName = route?.folder.trim() ?? settings.annotationsFolder ?? 'Feedly Annotations'
+	const template = settings.notePathTemplate?.trim() || '{{title}}'
+	const notePath = renderPathTemplate(template, getTemplateVariables(entry)) || sanitizePathSegment(entry.entry.id)
+	return normalizePath(`${folderName}/${notePath}`)
+}
+
+/**
+ * Writes the initial content of a newly created annotation note, either from
+ * the user's note template or as the default frontmatter.
+ */
+async function initializeEntryFile(app: App, file: TFile, entry: FeedlyAnnotatedEntry, noteTemplate?: string) {
+	if (noteTemplate?.trim()) {
+		await app.vault.modify(file, renderTemplate(noteTemplate, getTemplateVariables(entry)))
+	} else {
+		await setEntryFrontmatter(app.fileManager, file, entry)
+	}
+}
+
+/**
+ * Prefixes every line of `text`, keeping blank lines inside the quote.
+ */
+function quoteLines(text: string, prefix: string) {
+	return text.split('\n').map(line => `${prefix}${line}`.trimEnd()).join('\n')
+}
+
+/**
+ * Stable block ID for an annotation, so re-syncing the same annotation
+ * updates its block in place rather than appending a duplicate.
+ */
+function getAnnotationBlockId(entry: FeedlyAnnotatedEntry) {
+	return annotationIdentityToBlockId(entry.id ?? `${entry.entry.id}|${entry.created}`)
+}
+
+function annotationIdentityToBlockId(identity: string) {
+	return `feedly-${MD5(identity).toString().substring(0, 12)}`
+}
+
+function getAppendContent(entry: FeedlyAnnotatedEntry, annotationTemplate?: string) {
   if (!entry.annotation) {
     console.warn('No append content for', entry.entry.title)
 	console.warn(entry)
 	return ``
   }
 
-  if (entry.annotation.highlight) {
+  const blockId = getAnnotationBlockId(entry)
+  if (annotationTemplate?.trim() && (entry.annotation.highlight || entry.annotation.comment)) {
+    // The annotation must stay a single block so that its block ID covers all of it
+    const rendered = renderTemplate(annotationTemplate, getTemplateVariables(entry))
+      .replace(/\n\s*\n/g, '\n')
+      .trim()
+    return `
+
+${rendered} ^${blockId}`
+  }
+  const { highlight, comment } = entry.annotation
+  if (highlight && comment) {
+    return `
+
+> ${highlight.text.replace(/\n/g, `
+>
+> `)}
+>
+${quoteLines(`[!note] Comment\n${comment}`, '> > ')} ^${blockId}`
+  } else if (highlight) {
     return `
 
-> ${entry.annotation.highlight.text.replace(/\n/g, `
+> ${highlight.text.replace(/\n/g, `
 >
-> `)}`
-  } else if (entry.annotation.comment) {
+> `)} ^${blockId}`
+  } else if (comment) {
     return `
-    
-${entry.annotation.comment}`
+
+${quoteLines(`[!note] Comment\n${comment}`, '> ')} ^${blockId}`
   }
   console.warn('No append content for', entry.entry.title)
   return ''
 }
 
-async function getAnnotations(accessToken: string, continuation?: string, syncTime: number = 0) {
-  try {
-		const a = await apiCall(accessToken, `annotations/journal?newerThan=${syncTime}&withEntries=true&count=100${continuation ? `&continuation=${continuation}` : ''}`)
-		if (a.errorCode) {
-			throw new Error(a)
+/**
+ * Replaces the block ending in `^blockId` with `block`, or appends `block`
+ * if the note does not contain it yet.
+ *
+ * @param content - Current content of the note.
+ * @param blockId - Block ID of the annotation, without the caret.
+ * @param block - Rendered annotation, as returned by `getAppendContent`.
+ * @returns The updated note content.
+ */
+function upsertAnnotationBlock(content: string, blockId: string, block: string) {
+	const lines = content.split('\n')
+	const range = findBlockRange(lines, blockId)
+	if (!range) {
+		return content + block
+	}
+	lines.splice(range.start, range.end - range.start + 1, ...block.trim().split('\n'))
+	return lines.join('\n')
+}
+
+/**
+ * Finds the lines of the block ending in `^blockId`.
+ */
+function findBlockRange(lines: string[], blockId: string): { start: number, end: number } | undefined {
+	const end = lines.findIndex(line => line.trimEnd().endsWith(` ^${blockId}`))
+	if (end === -1) return undefined
+	let start = end
+	while (start > 0 && lines[start - 1].trim() !== '') {
+		start--
+	}
+	return { start, end }
+}
+
+/** Block ID of the saved article, or the link to it, inside an annotation note. */
+const ARTICLE_BLOCK_ID = 'feedly-article'
+
+/** Tags added to the last line of an annotation which no longer matches Feedly. */
+const DELETED_FLAG = '#feedly/deleted'
+const EDITED_FLAG = '#feedly/edited'
+
+/**
+ * Compares the synced annotations of a note with the annotations in Feedly.
+ *
+ * @param content - Content of the annotation note.
+ * @param remote - Rendered annotation of each block ID that Feedly still has.
+ * @param action - `update` removes deleted annotations and rewrites edited ones, `flag` only tags them.
+ * @returns The updated note content with the number of deleted and edited annotations found.
+ */
+export function reconcileAnnotationNote(content: string, remote: Map<string, string>, action: 'update' | 'flag') {
+	let lines = content.split('\n')
+	let deleted = 0
+	let edited = 0
+	const blockIds = lines
+		.map(line => /\s\^(feedly-[\w-]+)$/.exec(line.trimEnd())?.[1])
+		.filter((id): id is string => id !== undefined && id !== ARTICLE_BLOCK_ID)
+
+	for (const blockId of blockIds) {
+		const range = findBlockRange(lines, blockId)
+		if (!range) continue
+		const current = lines.slice(range.start, range.end + 1).join('\n')
+		const unflagged = current.replace(` ${DELETED_FLAG}`, '').replace(` ${EDITED_FLAG}`, '')
+		const rendered = remote.get(blockId)?.trim()
+
+		let replacement: string[] | undefined
+		if (rendered === undefined) {
+			deleted++
+			if (action === 'update') {
+				// Also drop the blank line which separated the block from the previous one
+				const start = range.start > 0 && lines[range.start - 1].trim() === '' ? range.start - 1 : range.start
+				lines = [...lines.slice(0, start), ...lines.slice(range.end + 1)]
+				continue
+			}
+			if (!current.includes(DELETED_FLAG)) {
+				replacement = flagBlock(unflagged, blockId, DELETED_FLAG)
+			}
+		} else if (normalizeBlock(rendered) !== normalizeBlock(unflagged)) {
+			edited++
+			if (action === 'update') {
+				replacement = rendered.split('\n')
+			} else if (!current.includes(EDITED_FLAG)) {
+				replacement = flagBlock(unflagged, blockId, EDITED_FLAG)
+			}
 		}
+		if (replacement) {
+			lines.splice(range.start, range.end - range.start + 1, ...replacement)
+		}
+	}
+	return { content: lines.join('\n'), deleted, edited }
+}
+
+/**
+ * Reduces an annotation block to its text, so that whitespace and list
+ * markers which differ from the rendered annotation, for example in a block
+ * written in Obsidian and pushed to Feedly, are not taken for an edit.
+ */
+function normalizeBlock(block: string) {
+	return block
+		.split('\n')
+		.map(line => line
+			// Quote markers, with or without spaces between them
+			.replace(/^[\s>]*/, prefix => prefix.replace(/\s/g, ''))
+			.replace(/^(>*)\s*(?:[-*+]|\d+[.)])\s+/, '$1- ')
+			.replace(/\s+/g, ' ')
+			.trim())
+		.filter(line => !/^>*$/.test(line))
+		.join('\n')
+}
+
+function flagBlock(block: string, blockId: string, flag: string) {
+	return block.replace(` ^${blockId}`, ` ${flag} ^${blockId}`).split('\n')
+}
+
+/**
+ * An annotation note, found through its `feedlyUrl` frontmatter.
+ */
+interface AnnotationNote {
+	file: TFile
+	entryId: string
+	/** Line index where the note body starts, after the frontmatter. */
+	bodyStart: number
+}
+
+/**
+ * Lists every indexed note which belongs to a Feedly entry.
+ */
+function getAnnotationNotes(app: App, entryIndex: EntryIndex): AnnotationNote[] {
+	return entryIndex.entries().map(({ entryId, file }) => {
+		const cache = app.metadataCache.getFileCache(file)
 		return {
-			entries: a.entries,
-			continuation: a.continuation,
-			count: a.entries.length
+			file,
+			entryId,
+			bodyStart: cache?.frontmatterPosition ? cache.frontmatterPosition.end.line + 1 : 0,
 		}
-	} catch (e) {
-		console.error(e)
-		if (e.message.includes('status 401')) {
-			console.error('Access token expired', e)
-			console.log(continuation)
-			throw new Error('Access token expired, request a new one')
+	})
+}
+
+/**
+ * Creates a folder and any missing parent folders.
+ */
+async function ensureFolder(app: App, folderPath: string) {
+	let current = ''
+	for (const segment of folderPath.split('/').filter(Boolean)) {
+		current = current ? `${current}/${segment}` : segment
+		if (!app.vault.getFolderByPath(current)) {
+			await app.vault.createFolder(current)
+		}
+	}
+}
+
+/**
+ * Creates an empty note for an entry, and its folders, picking a name that no
+ * other note uses.
+ *
+ * @param app - The Obsidian App instance.
+ * @param basePath - Sanitized note path, without the `.md` extension.
+ * @returns The created file.
+ */
+async function createEntryFile(app: App, basePath: string): Promise<TFile> {
+	const folderPath = basePath.includes('/') ? basePath.substring(0, basePath.lastIndexOf('/')) : ''
+	await ensureFolder(app, folderPath)
+	for (let n = 1; ; n++) {
+		const path = normalizePath(`${n === 1 ? basePath : `${basePath} ${n}`}.md`)
+		if (app.vault.getFileByPath(path)) continue
+		try {
+			return await app.vault.create(path, '')
+		} catch (error) {
+			// This is a situation which can happen if two files have the
+			// same name BUT different case sensitivity. So it would fail a
+			// filename lookup check BUT would also fail creating the file.
+			if (!error.message.includes('File already exists')) {
+				throw error
+			}
+			console.warn(error)
+		}
+	}
+}
+
+/**
+ * A highlight or comment found in an annotation note.
+ */
+interface ParsedAnnotation {
+	/** Line index of the last line of the block. */
+	endLine: number
+	/** Block ID without the caret, if the annotation came from or was sent to Feedly. */
+	blockId?: string
+	highlight?: string
+	comment?: string
+}
+
+/**
+ * Finds the quotes and `[!note]` comment callouts of an annotation note.
+ * Blocks in any other format are left alone.
+ *
+ * @param content - Content of the annotation note.
+ * @param bodyStart - Line index where the note body starts, after the frontmatter.
+ * @returns The annotations, in note order.
+ */
+function parseAnnotations(content: string, bodyStart: number): ParsedAnnotation[] {
+	const lines = content.split('\n')
+	const blocks: { start: number, end: number }[] = []
+	let start = -1
+	for (let i = bodyStart; i <= lines.length; i++) {
+		const isBlank = i === lines.length || lines[i].trim() === ''
+		if (isBlank && start !== -1) {
+			blocks.push({ start, end: i - 1 })
+			start = -1
+		} else if (!isBlank && start === -1) {
+			start = i
+		}
+	}
+
+	const annotations: ParsedAnnotation[] = []
+	for (const block of blocks) {
+		const blockLines = lines.slice(block.start, block.end + 1)
+		if (!blockLines.every(line => line.startsWith('>'))) continue
+		const blockIdMatch = /\s\^(feedly-[\w-]+)$/.exec(blockLines[blockLines.length - 1].trimEnd())
+		const blockId = blockIdMatch?.[1]
+		if (blockId === ARTICLE_BLOCK_ID) continue
+		if (blockIdMatch) {
+			blockLines[blockLines.length - 1] = blockLines[blockLines.length - 1].trimEnd().slice(0, -blockIdMatch[0].length)
 		}
-		if (e.message.includes('status 429')) {
-			console.error('API rate limit reached', e)
-			console.log(continuation)
-			throw new Error('API rate limit reached')
+
+		const inner = blockLines.map(line => line.replace(/^>\s?/, ''))
+		// Other callouts are not annotations
+		if (/^\[!/.test(inner[0]) && !/^\[!note\]/i.test(inner[0])) continue
+		const calloutIndex = inner.findIndex(line => /^(>\s?)?\[!note\]/i.test(line))
+		const highlightLines = calloutIndex === -1 ? inner : inner.slice(0, calloutIndex)
+		const calloutLines = calloutIndex === -1 ? [] : inner.slice(calloutIndex + 1)
+		const nested = calloutIndex !== -1 && inner[calloutIndex].startsWith('>')
+
+		const highlight = highlightLines.filter(line => line.trim() !== '').join('\n').trim()
+		const comment = calloutLines
+			.map(line => nested ? line.replace(/^>\s?/, '') : line)
+			.join('\n')
+			.trim()
+		if (!highlight && !comment) continue
+		annotations.push({
+			endLine: block.end,
+			blockId,
+			highlight: highlight || undefined,
+			comment: comment || undefined,
+		})
+	}
+	return annotations
+}
+
+/**
+ * Whether a block of a note shows an annotation that Feedly has, ignoring
+ * whitespace, since quotes are rewrapped when rendered.
+ */
+function isSameAnnotation(annotation: ParsedAnnotation, remote: FeedlyAnnotatedEntry) {
+	const text = (value?: string) => (value ?? '').replace(/\s+/g, ' ').trim()
+	if (annotation.highlight) {
+		return text(annotation.highlight) === text(remote.annotation?.highlight?.text)
+	}
+	return text(annotation.comment) === text(remote.annotation?.comment)
+}
+
+/**
+ * Finds quotes and `[!note]` comment callouts that have no `^feedly-` block
+ * ID yet. Notes synced before block IDs existed have such blocks too, so the
+ * ones matching an annotation of Feedly are returned with the block ID to
+ * backfill, rather than as added in Obsidian.
+ *
+ * @param remote - Annotations of the entry of the note in Feedly.
+ */
+function findLocalAnnotations(content: string, bodyStart: number, remote: FeedlyAnnotatedEntry[]) {
+	const local: ParsedAnnotation[] = []
+	const synced: { annotation: ParsedAnnotation, blockId: string }[] = []
+	for (const annotation of parseAnnotations(content, bodyStart)) {
+		if (annotation.blockId !== undefined) continue
+		const match = remote.find(r => isSameAnnotation(annotation, r))
+		if (match) {
+			synced.push({ annotation, blockId: getAnnotationBlockId(match) })
+		} else {
+			local.push(annotation)
+		}
+	}
+	return { local, synced }
+}
+
+/**
+ * Creates an annotation on a Feedly entry.
+ *
+ * @returns The block ID to tag the local annotation with.
+ * @throws If Feedly does not return the ID of the annotation, since the block
+ * could not be matched to it when syncing.
+ */
+async function createFeedlyAnnotation(client: FeedlyClient, entryId: string, annotation: ParsedAnnotation) {
+	const res = await client.createAnnotation({
+		entryId,
+		highlight: annotation.highlight,
+		comment: annotation.comment,
+	})
+	if (!res?.id) {
+		throw new Error('Feedly did not return the ID of the new annotation')
+	}
+	return annotationIdentityToBlockId(res.id)
+}
+
+async function getAnnotations(client: FeedlyClient, continuation?: string, syncTime: number = 0) {
+	const a = await client.getAnnotationJournal({ newerThan: syncTime, count: 100, continuation })
+	return {
+		entries: a.entries,
+		continuation: a.continuation,
+		count: a.entries.length
+	}
+}
+
+/**
+ * Fetches every annotation of the given entries from the whole journal.
+ *
+ * @returns The annotations of each entry which has some.
+ */
+async function getEntryAnnotations(client: FeedlyClient, entryIds: Set<string>) {
+	const annotations = new Map<string, FeedlyAnnotatedEntry[]>()
+	let continuation: string | undefined = undefined
+	while (true) {
+		const res: Awaited<ReturnType<typeof getAnnotations>> = await getAnnotations(client, continuation, 0)
+		for (const e of res.entries) {
+			if (!entryIds.has(e.entry.id)) continue
+			if (!annotations.has(e.entry.id)) {
+				annotations.set(e.entry.id, [])
+			}
+			annotations.get(e.entry.id)!.push(e)
 		}
+		continuation = res.continuation
+		if (res.count < 100 || !continuation) break
 	}
+	return annotations
 }
 
-async function getSavedLater(accessToken: string, userId: string) {
+/**
+ * Fetches the articles of a saved-for-later or board stream published in the last `days` days.
+ */
+async function getRecentArticles(client: FeedlyClient, streamId: string, days: number) {
     const articles: FeedlyArticle[] = []
     let continuation: string | undefined = undefined
-    const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000)
+    const since = Date.now() - (days * 24 * 60 * 60 * 1000)
 
     while (true) {
-        const query = continuation ? `&continuation=${continuation}` : ''
-        const res = await apiCall(accessToken, `streams/contents?streamId=user/${userId}/tag/global.saved&count=250${query}`) as {items: FeedlyArticle[], continuation?: string}
+        const res = await client.getStreamContents(streamId, { continuation })
         
         if (!res.items || res.items.length === 0) break
         
-        // Filter items that are newer than 30 days
+        // Filter items that are newer than the lookback window
         const recentItems = res.items.filter(item => {
             const publishedAt = item.published ?? item.crawled ?? 0
-            return publishedAt > thirtyDaysAgo
+            return publishedAt > since
         })
         
         articles.push(...recentItems)
@@ -302,7 +889,7 @@ async function getSavedLater(accessToken: string, userId: string) {
 			console.log(getContent(a))
 		})
         
-        // If some items in this batch were older than 30 days, we can stop fetching entirely
+        // If some items in this batch were older than the window, we can stop fetching entirely
         // since the stream is generally returned in reverse-chronological order.
         if (recentItems.length < res.items.length) {
             break
@@ -314,17 +901,6 @@ async function getSavedLater(accessToken: string, userId: string) {
     return articles
 }
 
-async function authorizeInstapaper(client: InstapaperClient, username: string, password: string, consumerKey: string, consumerSecret: string) {
-	try {
-		await client.authenticate(username, password)
-		return true
-	} catch (e) {
-		new Notice(`Error authorizing Instapaper`)
-		console.error(e)
-	}
-	return false
-}
-
 async function getBookmarks(client: InstapaperClient, limit: number = 25) {
 	try {
 		const bookmarks = await client.getBookmarks(limit)
@@ -336,59 +912,106 @@ async function getBookmarks(client: InstapaperClient, limit: number = 25) {
 	return null
 }
 
-async function getInstapaperArticles(
-	consumerKey: string,
-	consumerSecret: string,
-	username: string,
-	password: string,
+/** An Instapaper bookmark converted to an ePub chapter. */
+interface InstapaperChapter {
+	title: string
+	author: string
+	data: string
+	css: string
+	bookmarkId: string
+	url: string
+	/** When the bookmark was saved, in milliseconds */
+	saved?: number
+	/** Words of the article text, without the metadata */
+	words: number
+}
+
+/** What the content rules know about a bookmark before its text is fetched. */
+function bookmarkRuleArticle(b: any): RuleArticle {
+	return {
+		title: b.title,
+		author: b.author || undefined,
+		publisher: urlHost(b.url),
+		date: b.time ? b.time * 1000 : undefined,
+	}
+}
+
+export async function getInstapaperArticles(
+	client: InstapaperClient,
 	limit: number = 25,
-): Promise<{ title: string, author: string, data: string, css: string }[]> {
+	run?: SyncRunLog,
+	/** Issue number of bookmarks to leave out because an earlier issue delivered them */
+	delivered?: Map<string, number>,
+	profiles: CleaningProfile[] = [],
+	/** Why the content rules drop a bookmark, decided before its text is fetched */
+	ruleDrop?: (article: RuleArticle) => string | undefined,
+	/** Whether dropped bookmarks are fetched anyway, for a preview to list them */
+	keepDropped = false,
+): Promise<{ chapters: InstapaperChapter[], unreadIds?: string[] }> {
 	const progressNotice = new Notice('Fetching Instapaper articles...', 0)
-	const client = new InstapaperClient(consumerKey, consumerSecret)
-	const authorized = await authorizeInstapaper(client, username, password, consumerKey, consumerSecret)
-	if (!authorized) {
-		progressNotice.hide()
-		return []
-	}
 
 	const validBookmarks: any[] = []
 	const haveIds: string[] = []
+	// Bookmarks which count toward the limit, leaving out those the rules drop
+	let counted = 0
+	// Whether every unread bookmark was listed, rather than stopping at the limit
+	let complete = false
 
-	while (validBookmarks.length < limit) {
+	while (counted < limit) {
 		try {
 			const bookmarks = await client.getBookmarks(500, undefined, haveIds.join(','))
 			if (!bookmarks || !Array.isArray(bookmarks)) break
 
 			const pageBookmarks = bookmarks.filter(b => b && b.type === 'bookmark' && b.bookmark_id && b.title)
-			if (pageBookmarks.length === 0) break
+			if (pageBookmarks.length === 0) {
+				complete = true
+				break
+			}
 
 			let newCount = 0
+			let listed = 0
 			for (const b of pageBookmarks) {
+				listed++
 				const bIdStr = String(b.bookmark_id)
 				if (!haveIds.includes(bIdStr)) {
 					haveIds.push(bIdStr)
-					validBookmarks.push(b)
 					newCount++
-					if (validBookmarks.length >= limit) break
+					const issue = delivered?.get(bIdStr)
+					if (issue !== undefined) {
+						run?.skip(b.title, `Delivered in issue ${issue}`)
+						continue
+					}
+					const reason = ruleDrop?.(bookmarkRuleArticle(b))
+					if (reason !== undefined && !keepDropped) {
+						run?.skip(b.title, reason)
+						continue
+					}
+					validBookmarks.push(b)
+					if (reason === undefined && ++counted >= limit) break
 				}
 			}
 
-			if (newCount === 0 || pageBookmarks.length < 500) break
+			if (newCount === 0 || pageBookmarks.length < 500) {
+				complete = newCount > 0 && listed === pageBookmarks.length
+				break
+			}
 		} catch (e) {
 			console.error('Error fetching Instapaper bookmark batch:', e)
 			new Notice(`Error fetching Instapaper bookmarks`)
+			run?.error(`Error fetching Instapaper bookmarks: ${e.message}`)
 			break
 		}
 	}
 
+	const unreadIds = complete ? haveIds : undefined
 	if (validBookmarks.length === 0) {
 		progressNotice.setMessage('Instapaper progress: Done (0 articles)')
-		return []
+		return { chapters: [], unreadIds }
 	}
 
 
-	const out: { title: string, author: string, data: string, css: string }[] = []
-	const results: ({ title: string, author: string, data: string, css: string } | null)[] = new Array(validBookmarks.length).fill(null)
+	const out: InstapaperChapter[] = []
+	const results: (InstapaperChapter | null)[] = new Array(validBookmarks.length).fill(null)
 	let skippedCount = 0
 	let processedCount = 0
 	progressNotice.setMessage(`Instapaper progress: 0/${validBookmarks.length}`)
@@ -405,9 +1028,13 @@ async function getInstapaperArticles(
 				const content = await client.getText(bookmark_id)
 				if (content === null) {
 					skippedCount++
+					run?.skip(title, 'Instapaper could not return the text')
 				} else {
 					const saveDate = b.time ? dateToJournal(new Date(b.time * 1000)) : 'Unknown'
 					const author = b.author ?? 'Unknown'
+					// Instapaper already extracts the article, so only a matching profile cleans it further
+					const profile = findProfile(profiles, urlHost(url))
+					const text = profile ? cleanContent(content, true, profile) : content
 					const data = `<h2>${title}</h2>
 <pre>---
 url: ${url}
@@ -416,20 +1043,26 @@ title: ${title}
 saveDate: ${saveDate}${b.description ? `
 description: ${sanitizeFrontmatter(b.description)}` : ''}
 ---</pre>
-<div>${content}</div>`
+<div>${text}</div>`
 					results[index] = { 
 						title, 
 						author, 
 						data, 
-						css: "img { display: none; width: 0px; height: 0px; }" 
+						css: "img { display: none; width: 0px; height: 0px; }",
+						bookmarkId: String(bookmark_id),
+						url,
+						saved: b.time ? b.time * 1000 : undefined,
+						words: countWords(text),
 					}
 				}
 			} catch (e) {
 				const errorMsg = e.message || e.toString()
 				if (errorMsg.includes('1550')) {
 					console.warn(`Instapaper: Unable to parse text for "${title}" (1550). This article will be skipped.`)
+					run?.skip(title, 'Instapaper error 1550, cannot parse the text')
 				} else {
 					console.error(`Instapaper: Unexpected error fetching "${title}":`, e)
+					run?.skip(title, `Instapaper error: ${errorMsg}`)
 				}
 				skippedCount++
 			} finally {
@@ -453,44 +1086,14 @@ description: ${sanitizeFrontmatter(b.description)}` : ''}
 
 	progressNotice.setMessage(`Instapaper progress: Done (${out.length}/${validBookmarks.length} articles${skippedCount > 0 ? `, ${skippedCount} skipped` : ''})`)
 
-	return out
+	return { chapters: out, unreadIds }
 }
 
-function cleanContent(html: string) {
-	if (!html) return html;
-
-	let content = html;
-
-	// 1. Remove preheaders and display:none blocks which often contain preview text we don't want in the body
-	content = content.replace(/<div[^>]*display\s*:\s*none[^>]*>[\s\S]*?<\/div>/gi, '');
-
-	// 2. Remove known ad and social blocks
-	content = content.replace(/<div[^>]*data-block="(top-ad|ad|social)"[^>]*>[\s\S]*?<\/div>/gi, '');
-
-	// 3. Remove "View in browser" links and similar noise
-	content = content.replace(/<a[^>]*>[^<]*View in browser[^<]*<\/a>/gi, '');
-	content = content.replace(/<a[^>]*>[^<]*View on [^<]*<\/a>/gi, '');
-
-	// 4. Flatten Tables
-	// We replace table tags with nothing, and td/tr with divs to keep the flow
-	for (let i = 0; i < 3; i++) {
-		content = content
-			.replace(/<table[^>]*>([\s\S]*?)<\/table>/gi, '$1')
-			.replace(/<tbody[^>]*>([\s\S]*?)<\/tbody>/gi, '$1')
-			.replace(/<tr[^>]*>([\s\S]*?)<\/tr>/gi, '<div>$1</div>')
-			.replace(/<td[^>]*>([\s\S]*?)<\/td>/gi, '<div>$1</div>');
-	}
-
-	// 5. Strip overly complex inline styles that interfere with e-reader rendering
-	content = content.replace(/style="[^"]{40,}"/gi, '');
-
-	// 6. Final cleanup
-	return content
-		.replace(/<img .*?>/g, '') // Remove images
-		.replace(/<div>\s*<\/div>/gi, '') // Remove empty divs
-		.trim();
-}
-function getContent(article: FeedlyArticle) {
+/**
+ * Picks the longest content of an article and cleans it, with the cleaning
+ * profile of its publisher or feed if one matches.
+ */
+function getContent(article: FeedlyArticle, keepImages = false, profiles: CleaningProfile[] = []) {
 	const contents = [
 		article?.content?.content,
 		article?.summary?.content,
@@ -499,36 +1102,94 @@ function getContent(article: FeedlyArticle) {
 
 	if (contents.length > 0) {
 		// Sort by length in descending order and pick the first one
-		return cleanContent(contents.sort((a, b) => b.length - a.length)[0])
+		const profile = findProfile(profiles, article.origin?.title, article.origin?.streamId)
+		return cleanContent(contents.sort((a, b) => b.length - a.length)[0], keepImages, profile)
 	}
 }
+/**
+ * Converts the content of an article to Markdown, marking highlighted
+ * passages which appear in its text.
+ *
+ * @param article - Entry with its content.
+ * @param highlights - Highlighted passages of the article.
+ * @returns The Markdown, or undefined if the entry has no content.
+ */
+function getArticleMarkdown(article: FeedlyArticle, highlights: string[], profiles: CleaningProfile[] = []): string | undefined {
+	const html = getContent(article, false, profiles)
+	if (!html) return undefined
+	return htmlToMarkdown(html, highlights)
+}
+
 interface GenerateEpubParams {
     id: string
     title: string
     publisher: string
     author: string
-    cover?: string
-    content: {
+    description?: string
+    /** Cover image, also shown as the first page */
+    cover?: EpubImage
+    /** Chapters by group. Groups with a title get a header page and a level of the table of contents. */
+    content: ChapterGroup<{
         title: string
         data: string
-    }[]
+    }>[]
+    /** Images which the content links to as `../images/<name>`. Without them, images are hidden. */
+    images?: EpubImage[]
+    /** Path of the ePub without the `.epub` extension */
     filePath: string
+    vault: Vault
+    /** Records why the nested table of contents could not be added */
+    run?: SyncRunLog
 }
 
-async function generateEpub(params: GenerateEpubParams): Promise<string> {
+export async function generateEpub(params: GenerateEpubParams): Promise<string> {
+    // nodepub inserts metadata and section titles into its XML files as they are
     const bookFile = nodepub.document({
         id: params.id,
-        title: params.title,
-        publisher: params.publisher,
-        author: params.author,
-        cover: params.cover,
+        title: escapeXml(params.title),
+        publisher: escapeXml(params.publisher),
+        author: escapeXml(params.author),
+        description: params.description === undefined ? undefined : escapeXml(params.description),
     })
-    bookFile.addCSS(`img { display: none; width: 0px; height: 0px }`)
+    // Each call to addCSS replaces the CSS of the earlier ones
+    const css = [params.images
+        ? `img { max-width: 100%; height: auto; } .image-alt { font-style: italic; }`
+        : `img { display: none; width: 0px; height: 0px }`]
+    if (params.cover) {
+        css.push(`.cover { text-align: center; } .cover img { display: inline; width: auto; height: 100%; max-width: 100%; }`)
+    }
+    bookFile.addCSS(css.join('\n'))
+    if (params.cover) {
+        bookFile.addSection('Cover', `<div class="cover"><img src="../images/${params.cover.name}" alt="${escapeXml(params.title)}" /></div>`, true, true)
+    }
+    let sectionCount = params.cover ? 1 : 0
+    const toc: TocEntry[] = []
     let i = 0
-    for (const c of params.content) {
-        bookFile.addSection(`${++i}. ${c.title}`, c.data)
+    for (const group of params.content) {
+        let children = toc
+        if (group.title) {
+            const header = `<h1>${escapeXml(group.title)}</h1>
+<ol>${group.chapters.map((c, index) => `<li>${i + index + 1}. ${escapeXml(c.title)}</li>`).join('')}</ol>`
+            bookFile.addSection(escapeXml(group.title), header)
+            const entry: TocEntry = { title: group.title, section: sectionCount++, children: [] }
+            toc.push(entry)
+            children = entry.children!
+        }
+        for (const c of group.chapters) {
+            const title = `${++i}. ${c.title}`
+            bookFile.addSection(escapeXml(title), c.data)
+            children.push({ title, section: sectionCount++ })
+        }
     }
     const files = await bookFile.getFilesForEPUB()
+    if (params.content.some(group => group.title)) {
+        try {
+            applyNestedToc(files, toc, sectionCount)
+        } catch (e) {
+            console.error('Cannot nest the table of contents', e)
+            params.run?.error(`Kept the flat table of contents, the ePub files were not as expected: ${e.message}`)
+        }
+    }
 
     // 3. Initialize JSZip
     const zip = new JSZip();
@@ -551,7 +1212,24 @@ async function generateEpub(params: GenerateEpubParams): Promise<string> {
         folders['OEBPF/images'] = folders['OEBPF'].folder('images')
     }
 
+    for (const image of [...params.images ?? [], ...params.cover ? [params.cover] : []]) {
+        folders['OEBPF/images']?.file(image.name, image.data)
+    }
+    const imageItems = (params.images ?? [])
+        .map((image, i) => `<item id="embedded-image-${i + 1}" href="images/${image.name}" media-type="${image.mediaType}"/>`)
+    if (params.cover) {
+        imageItems.push(`<item id="cover-image" href="images/${params.cover.name}" media-type="${params.cover.mediaType}" properties="cover-image"/>`)
+    }
+
     for (const file of files) {
+        if (file.name.endsWith('.opf') && typeof file.content === 'string') {
+            // The package manifest has to list every file of the ePub
+            file.content = file.content.replace('</manifest>', `${imageItems.join('\n')}\n</manifest>`)
+            if (params.cover) {
+                // EPUB 2 readers find the cover through this instead of the manifest property
+                file.content = file.content.replace('</metadata>', `<meta name="cover" content="cover-image"/>\n</metadata>`)
+            }
+        }
         if (file.name !== 'mimetype') {
             if (file.folder !== '') {
                 console.log('    ', file.folder, file.name, file.content.length)
@@ -567,38 +1245,75 @@ async function generateEpub(params: GenerateEpubParams): Promise<string> {
     const arrayBuffer = await zip.generateAsync({ type: 'arraybuffer', mimeType: 'application/epub+zip' });
 
     // 7. Save the EPUB file to the vault
-    const newFile: TFile = await this.app.vault.createBinary(`${params.filePath}.epub`, arrayBuffer);
+    const newFile: TFile = await params.vault.createBinary(`${params.filePath}.epub`, arrayBuffer);
     return newFile.path
 }
 
 export default class FeedlyPlugin extends Plugin {
 	settings: FeedlySettings;
+	entryIndex: EntryIndex;
+	/** Sends every Feedly and Instapaper request, and records or replays them */
+	transport: RecordingTransport;
+	feedly: FeedlyClient;
+	history: SyncHistory;
+	/** Articles delivered in earlier issues of each edition */
+	deliveries: DeliveryLog;
+	/** Articles of the latest ePub, to show what each content rule drops */
+	ruleSample: RuleSample;
+	/** Job running on this device */
+	runningJob?: JobId;
+	/** IDs of the commands added for ePub editions */
+	editionCommands: string[] = [];
+	/** Whether this session already warned that the access token expires soon */
+	tokenWarningShown = false;
 
 	async onload() {
+		this.transport = new RecordingTransport(this.app.vault.adapter, `${this.manifest.dir}/fixtures`);
+		this.feedly = new FeedlyClient(undefined, this.transport.request);
 		await this.loadSettings();
 
+		this.feedly.setRefreshHandler(() => this.refreshFeedlyToken());
+
+		this.history = new SyncHistory(this.app, `${this.manifest.dir}/history.json`);
+		await this.history.load();
+		this.deliveries = new DeliveryLog(this.app, `${this.manifest.dir}/delivered.json`);
+		await this.deliveries.load();
+		this.ruleSample = new RuleSample(this.app, `${this.manifest.dir}/rule-sample.json`);
+		await this.ruleSample.load();
+		this.registerView(SYNC_HISTORY_VIEW, (leaf) => new SyncHistoryView(leaf, this.history));
+
+		this.entryIndex = new EntryIndex(this.app);
+		this.app.workspace.onLayoutReady(async () => {
+			this.entryIndex.rebuild();
+			this.registerEvent(this.app.metadataCache.on('changed', (file, data, cache) => this.entryIndex.update(file, cache)));
+			this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+				if (file instanceof TFile) {
+					this.entryIndex.rename(file, oldPath);
+				}
+			}));
+			this.registerEvent(this.app.vault.on('delete', (file) => this.entryIndex.remove(file.path)));
+
+			await this.migrateInstapaperPassword();
+			await this.migrateFilteredPublishers();
+			await this.migrateTagMapping();
+			await this.migrateTokenExpiry();
+			await this.checkFeedlyToken();
+			if (this.settings.syncOnStartup) {
+				this.runJob('sync', true).catch((e) => console.error('Error running the startup sync', e));
+			}
+			this.registerInterval(window.setInterval(() => this.runScheduledJobs().catch((e) => console.error('Error running scheduled jobs', e)), SCHEDULER_TICK));
+		});
+
 		this.registerEvent(
 			this.app.workspace.on('url-menu', (menu, url) => {
-				if (
-					this.settings.instapaperConsumerKey &&
-					this.settings.instapaperConsumerSecret &&
-					this.settings.instapaperUsername &&
-					this.settings.instapaperPassword
-				) {
+				const client = this.getInstapaperClient();
+				if (client) {
 					menu.addItem((item) => {
 						item.setTitle('Add to Instapaper')
 							.setIcon('bookmark')
 							.onClick(async () => {
 								new Notice(`Saving ${url} to Instapaper...`);
 								try {
-									const client = new InstapaperClient(
-										this.settings.instapaperConsumerKey!,
-										this.settings.instapaperConsumerSecret!
-									);
-									await client.authenticate(
-										this.settings.instapaperUsername!,
-										this.settings.instapaperPassword!
-									);
 									await client.addBookmark(url);
 									new Notice('Saved to Instapaper!');
 								} catch (error) {
@@ -614,177 +1329,411 @@ export default class FeedlyPlugin extends Plugin {
 		this.addCommand({
 			id: 'sync',
 			name: 'Sync annotated articles',
-			callback: async () => {
-				await this.loadSettings()
-				if (!this.settings.userId) {
-					return new Notice('Missing Feedly user id')
-				}
-				if (!this.settings.accessToken) {
-					return new Notice('Missing Feedly access token')
-				}
+			callback: () => this.runJob('sync'),
+		})
 
-				let entryCounter = 0
-				let continuationToken = this.settings.continuationToken ?? undefined
-				if (!continuationToken) {
-					// Beginning a full, multi-step sync
-					this.settings.continuationTime = Date.now()
-					await this.saveSettings(this.settings)
-				}
-				new Notice('Beginning to download Feedly annotations')
+		this.addCommand({
+			id: 'sync-preview',
+			name: 'Preview and sync annotated articles',
+			callback: () => this.runJob('sync', false, true),
+		})
 
-				const folderName = this.settings.annotationsFolder ?? 'Feedly Annotations'
-				const doesFolderExist = this.app.vault.getFolderByPath(folderName)
-				if (!doesFolderExist) {
-					await this.app.vault.createFolder(folderName)
-				}
-				const processAnnotations = async (entries: FeedlyAnnotatedEntry[]) => {
-					for (const e of entries) {
-						// Remove slashes.
-						// File name cannot contain any of the following characters: * " \ / < > : | ?
-						const sanitizedFileName = e.entry.title.replace(new RegExp('[*"/<>:|?]', 'g'), '')
-						const filename = `${sanitizedFileName}.md`
-						const path = normalizePath(`${folderName}/${filename}`)
-						let obsidianFile = this.app.vault.getFileByPath(path)
-						console.log(path, obsidianFile)
-						if (!obsidianFile) {
-							// Add the frontmatter
-							try {
-								obsidianFile = await this.app.vault.create(path, '')
-								await setEntryFrontmatter(this.app.fileManager, obsidianFile, e)
-							} catch (error) {
-								if (error.message.includes('File already exists')) {
-									// This is a situation which can happen if
-									// two files have the same name BUT
-									// different case sensitivity. So it would
-									// fail a filename lookup check BUT would
-									// also fail creating the file.
-									// To fix this, we will generate a unique
-									// filename.
-									console.warn(error)
-									const appendedId = e.entry.id.replace(new RegExp('[*"/<>:|?]', 'g'), '')
-									const uniqueFilename = `${sanitizedFileName}-${appendedId}.md`
-									const uniquePath = normalizePath(`${folderName}/${uniqueFilename}`)
-									console.warn(`use path ${uniquePath}`)
-									obsidianFile = this.app.vault.getFileByPath(uniquePath)
-									if (!obsidianFile) {
-										obsidianFile = await this.app.vault.create(uniquePath, '')
-										await setEntryFrontmatter(this.app.fileManager, obsidianFile, e)
-									}
-								}
-							}
-						}
-						// Add the highlight or comment of this entry
-						await this.app.vault.append(obsidianFile!, getAppendContent(e))
-						entryCounter++
-					}
-				}
-				// console.log(this.settings.continuationTime, this.settings.continuationToken, this.settings.lastSync)
+		this.addCommand({
+			id: 'push-annotations',
+			name: 'Push new highlights and comments to Feedly',
+			callback: () => this.runJob('push-annotations'),
+		})
 
-				while (true) {
-					try {
-						const res = await getAnnotations(this.settings.accessToken, continuationToken, this.settings.lastSync)
-						// console.log('res', res?.count, res?.continuation)
-						if (res === undefined) break
-						continuationToken = res.continuation
-						await processAnnotations(res.entries)
-						if (res.count < 100) {
-							console.debug(`only got ${res.count} entries`)
-							this.settings.continuationToken = undefined // Reset
-							this.settings.lastSync = this.settings.continuationTime
-							await this.saveSettings(this.settings)
-							new Notice('All Feedly annotations synced')
+		this.addCommand({
+			id: 'reconcile-annotations',
+			name: 'Reconcile deleted and edited annotations',
+			callback: () => this.runJob('reconcile-annotations'),
+		})
+
+		this.addCommand({
+			id: 'epub',
+			name: 'Generate ePub of every edition',
+			callback: () => this.runJob('epub'),
+		})
+
+		this.addCommand({
+			id: 'epub-preview',
+			name: 'Preview and generate ePub of every edition',
+			callback: () => this.runJob('epub', false, true),
+		})
+
+		this.registerEditionCommands()
+
+		this.addCommand({
+			id: 'apply-epub-checklist',
+			name: 'Apply ePub checklist',
+			checkCallback: (checking) => {
+				const file = this.app.workspace.getActiveFile()
+				const isChecklist = file && this.app.metadataCache.getFileCache(file)?.frontmatter?.[CHECKLIST_PROPERTY] !== undefined
+				if (checking) return !!isChecklist
+				if (file && isChecklist) {
+					this.applyChecklist(file).catch((e) => new Notice(`Cannot apply the checklist: ${e.message}`))
+				}
+				return true
+			},
+		})
+
+		this.addCommand({
+			id: 'open-sync-history',
+			name: 'Open sync history',
+			callback: () => this.openSyncHistory(),
+		})
+
+        this.addCommand({
+            id: 'cleanup',
+            name: 'Delete all Feedly epub files',
+            callback: async () => {
+                const deletePromises = []
+								const files = this.app.vault.getFiles(); // Get all files in the vault
+
+                const editions = this.getEditions()
+                for (const file of files) {
+                    const legacy = file.extension === 'epub' && file.basename.startsWith('FeedlySync')
+                    if (legacy || editions.some(edition => isIssueFile(edition, file))) {
+                        console.log(file.basename)
+                        deletePromises.push(this.app.fileManager.trashFile(file));
+                        // The checklist note of the issue goes with it
+                        const checklist = this.app.vault.getAbstractFileByPath(checklistPath(file.path.replace(/\.epub$/, '')))
+                        if (checklist instanceof TFile) {
+                            deletePromises.push(this.app.fileManager.trashFile(checklist));
+                        }
+                    }
+                }
+								await Promise.all(deletePromises)
+								new Notice(`Deleted ${deletePromises.length} files`)
+            }
+        })
+
+		this.addCommand({
+			id: 'sync-instapaper-folders',
+			name: 'Sync Instapaper folders to Markdown list',
+			callback: () => this.runJob('sync-instapaper-folders'),
+		})
+
+		this.addCommand({
+			id: 'sync-feedly-boards',
+			name: 'Sync Feedly boards to Markdown list',
+			callback: () => this.runJob('sync-feedly-boards'),
+		})
+
+
+
+
+		this.addSettingTab(new FeedlySettingTab(this.app, this));
+	}
+
+	/**
+	 * Syncs new Feedly annotations into the annotation notes, resuming an
+	 * interrupted sync from its continuation token.
+	 */
+	async syncAnnotations(run?: SyncRunLog, preview = false) {
+		await this.loadSettings()
+		if (!this.settings.userId) {
+			run?.error('Missing Feedly user id')
+			return new Notice('Missing Feedly user id')
+		}
+		if (!this.settings.accessToken) {
+			run?.error('Missing Feedly access token')
+			return new Notice('Missing Feedly access token')
+		}
+
+		let entryCounter = 0
+		let continuationToken = this.settings.continuationToken ?? undefined
+		// Set again if this run reaches the rate limit too
+		this.settings.rateLimitedUntil = undefined
+		if (!continuationToken) {
+			// Beginning a full, multi-step sync
+			this.settings.continuationTime = Date.now()
+		}
+		await this.saveSettings(this.settings)
+		new Notice('Beginning to download Feedly annotations')
+
+		const folderName = this.settings.annotationsFolder ?? 'Feedly Annotations'
+		const doesFolderExist = this.app.vault.getFolderByPath(folderName)
+		if (!doesFolderExist) {
+			await this.app.vault.createFolder(folderName)
+		}
+		// Notes which got annotations in this sync, to save their articles afterwards
+		const syncedFiles = new Map<string, TFile>()
+		// console.log(this.settings.continuationTime, this.settings.continuationToken, this.settings.lastSync)
+
+		// A preview fetches every page before writing anything
+		const pending: FeedlyAnnotatedEntry[] = []
+		while (true) {
+			try {
+				const res = await getAnnotations(this.feedly, continuationToken, this.settings.lastSync)
+				// console.log('res', res?.count, res?.continuation)
+				continuationToken = res.continuation
+				if (preview) {
+					pending.push(...res.entries)
+				} else {
+					await this.processAnnotations(res.entries, syncedFiles, run)
+					entryCounter += res.entries.length
+				}
+				if (res.count < 100) {
+					console.debug(`only got ${res.count} entries`)
+					if (preview) {
+						const selected = await this.previewAnnotationSync(pending)
+						if (!selected) {
+							new Notice('Sync cancelled, nothing was changed')
 							break
 						}
-						this.settings.continuationToken = continuationToken
-						// Save token for the future
-						await this.saveSettings(this.settings)
-						console.debug(`>    at ${continuationToken} ...`)
-					} catch (e) {
-						if (e.message.includes('API rate limit')) {
-							new Notice('The Feedly API rate limit has been reached, continue later')
-						} else {
-							new Notice(e.message)
-							console.error(e)
+						for (const e of pending) {
+							if (!selected.includes(e)) {
+								run?.skip(e.entry.title, 'Unticked in the preview')
+							}
 						}
-						break;
+						await this.processAnnotations(selected, syncedFiles, run)
+						entryCounter += selected.length
 					}
+					this.settings.continuationToken = undefined // Reset
+					this.settings.lastSync = this.settings.continuationTime
+					this.settings.rateLimitedUntil = undefined
+					await this.saveSettings(this.settings)
+					new Notice('All Feedly annotations synced')
+					break
 				}
-				new Notice(`Synced ${entryCounter} annotations`)
-			},
-		})
+				if (preview) continue
+				this.settings.continuationToken = continuationToken
+				// Save token for the future
+				await this.saveSettings(this.settings)
+				console.debug(`>    at ${continuationToken} ...`)
+			} catch (e) {
+				if (e instanceof FeedlyRateLimitError) {
+					// The scheduler resumes from the continuation token once this passes
+					const resetAt = await this.recordRateLimit(e, run)
+					new Notice(`The Feedly API rate limit has been reached, continue after ${new Date(resetAt).toLocaleTimeString()}`)
+				} else {
+					new Notice(e.message)
+					console.error(e)
+					run?.error(e.message)
+				}
+				break;
+			}
+		}
+		const rateLimit = this.describeRateLimit()
+		new Notice(`Synced ${entryCounter} annotations${rateLimit ? `. ${rateLimit}` : ''}`)
 
-		this.addCommand({
-			id: 'epub',
-			name: 'Generate ePub',
-			callback: async () => {
-				const filePath = `FeedlySync-${Date.now()}`
-                console.debug(`Starting file ${filePath}`)
-				const articles: FeedlyArticle[] = []
-  				let continuation: string | undefined = undefined
-
-				if (!this.settings.userId) {
-					return new Notice('Missing Feedly user id')
+		if ((this.settings.saveArticle ?? 'none') !== 'none' && syncedFiles.size > 0) {
+			const progressNotice = new Notice('Saving articles...', 0)
+			let savedCount = 0
+			for (const [entryId, file] of syncedFiles) {
+				try {
+					await this.saveEntryArticle(file, entryId)
+					run?.count('articles saved')
+					savedCount++
+					progressNotice.setMessage(`Saving articles: ${savedCount}/${syncedFiles.size}`)
+				} catch (e) {
+					console.error(`Error saving article of ${file.path}`, e)
+					if (e instanceof FeedlyRateLimitError) {
+						await this.recordRateLimit(e, run)
+					} else {
+						run?.error(`Cannot save the article of ${file.path}: ${e.message}`)
+					}
+					if (e instanceof FeedlyAuthError || e instanceof FeedlyRateLimitError) {
+						new Notice('Could not fetch the remaining articles, they will be saved on their next sync')
+						break
+					}
+				}
+			}
+			progressNotice.hide()
+		}
+	}
+
+	/**
+	 * Lists the notes which the fetched annotations will create or change.
+	 *
+	 * @returns The annotations to sync, or undefined if the user cancelled.
+	 */
+	async previewAnnotationSync(entries: FeedlyAnnotatedEntry[]) {
+		if (entries.length === 0) return entries
+		const groups = new Map<string, PreviewGroup<FeedlyAnnotatedEntry>>()
+		const contents = new Map<string, string>()
+		for (const e of entries) {
+			const file = this.entryIndex.getFile(e.entry.id) ?? this.app.vault.getFileByPath(`${getEntryNotePath(e, this.settings)}.md`)
+			const path = file?.path ?? `${getEntryNotePath(e, this.settings)}.md`
+			let group = groups.get(path)
+			if (!group) {
+				group = { title: file ? `Append to ${path}` : `Create ${path}`, items: [] }
+				groups.set(path, group)
+			}
+			let detail = 'New'
+			if (file) {
+				if (!contents.has(path)) {
+					contents.set(path, await this.app.vault.cachedRead(file))
 				}
-				if (!this.settings.accessToken) {
-					return new Notice('Missing Feedly access token')
+				if (contents.get(path)!.includes(`^${getAnnotationBlockId(e)}`)) {
+					detail = 'Update'
 				}
-				const userId = this.settings.userId
-				const accessToken = this.settings.accessToken
-                new Notice('Beginning to download articles...')
+			}
+			const text = e.annotation.highlight?.text ?? e.annotation.comment ?? e.entry.title
+			group.items.push({
+				value: e,
+				label: text.length > 120 ? `${text.substring(0, 120)}…` : text,
+				detail,
+				selected: true,
+			})
+		}
+		return await openPreview(this.app, {
+			title: 'Preview annotation sync',
+			groups: [...groups.values()],
+			note: 'Unticked annotations are skipped for good: later syncs only fetch annotations made after this one.',
+			confirmText: 'Sync',
+			summary: (selected) => {
+				const notes = new Set([...groups.entries()].filter(([, group]) => group.items.some(item => selected.includes(item.value))).map(([path]) => path))
+				return `${selected.length} of ${entries.length} annotations, in ${notes.size} notes`
+			},
+		})
+	}
 
-				while (true) {
-					const query = continuation ? `&continuation=${continuation}` : ''
-					try {
-                        const res = await apiCall(accessToken, `streams/contents?streamId=user/${userId}/category/global.all&unreadOnly=true&count=250${query}`) as {items: FeedlyArticle[], continuation?: string}
-                        const items = res.items
-                        if (!items) {
-                            console.error('err', res)
-                            return
-                        }
-                        continuation = res.continuation
-                        articles.push(...items)
-                        if (items.length < 250) break
-                    } catch (e) {
-                        console.error(e)
-                        if (e.message.includes('status 401')) {
-                            console.error('Access token expired', e)
-                            console.log(continuation)
-                            return new Notice('Access token expired, request a new one')
-                        }
-                        if (e.message.includes('status 429')) {
-                            console.error('API rate limit reached', e)
-                            console.log(continuation)
-                            return new Notice('API rate limit reached')
-                        }
-                    }
+	/**
+	 * Generates the next issue of every edition, or of one edition.
+	 */
+	async generateEditions(run: SyncRunLog, preview = false, editionId?: string) {
+		const editions = this.getEditions().filter(edition => !editionId || edition.id === editionId)
+		if (editionId && editions.length === 0) {
+			run.error('This edition no longer exists')
+			return new Notice('This edition no longer exists')
+		}
+		for (const edition of editions) {
+			await this.generateFeedlyEpub(edition, run, preview)
+		}
+	}
+
+	/**
+	 * Generates the next issue of an edition from the unread articles of its
+	 * Feedly streams, recently saved articles and Instapaper.
+	 */
+	async generateFeedlyEpub(edition: EpubEdition, run?: SyncRunLog, preview = false) {
+		let issue = nextIssue(edition, this.app.vault.getFiles(), this.deliveries.lastIssue(edition.id))
+		const date = dateToJournal(new Date())
+		// A file of another edition, or one renamed by the user, can still have the name
+		while (this.app.vault.getAbstractFileByPath(`${issuePath(edition, issue, date)}.epub`)) {
+			issue++
+		}
+		const filePath = issuePath(edition, issue, date)
+		console.debug(`Starting file ${filePath}`)
+		let articles: FeedlyArticle[] = []
+
+		if (!this.settings.userId) {
+			run?.error('Missing Feedly user id')
+			return new Notice('Missing Feedly user id')
+		}
+		if (!this.settings.accessToken) {
+			run?.error('Missing Feedly access token')
+			return new Notice('Missing Feedly access token')
+		}
+		const userId = this.settings.userId
+		new Notice(`Beginning to download articles for ${edition.name}...`)
+
+		const stop = async (e: unknown) => {
+			console.error(e)
+			const message = e instanceof Error ? e.message : String(e)
+			if (e instanceof FeedlyRateLimitError) {
+				await this.recordRateLimit(e, run)
+			} else {
+				run?.error(message)
+			}
+			return new Notice(message)
+		}
+
+		let unreadStreams = [`user/${userId}/category/global.all`]
+		const recentStreams = edition.saved ? [`user/${userId}/tag/global.saved`] : []
+		if (edition.sources.length > 0) {
+			try {
+				const { streams, unknown } = resolveSources(edition.sources, await this.feedly.getSubscriptions(), await this.feedly.getTags())
+				for (const source of unknown) {
+					run?.error(`Unknown Feedly source "${source}"`)
+					new Notice(`${edition.name}: no Feedly category, feed or board is named "${source}"`)
 				}
-				console.log(articles.length, 'items')
+				unreadStreams = streams.filter(s => s.kind !== 'board').map(s => s.streamId)
+				recentStreams.push(...streams.filter(s => s.kind === 'board').map(s => s.streamId))
+			} catch (e) {
+				return await stop(e)
+			}
+		}
 
+		for (const streamId of unreadStreams) {
+			let continuation: string | undefined = undefined
+			while (true) {
 				try {
-					const savedArticles = await getSavedLater(accessToken, userId)
-					console.log(savedArticles.length, 'saved items')
-					articles.push(...savedArticles)
+					const res = await this.feedly.getStreamContents(streamId, { unreadOnly: true, continuation })
+					const items = res.items
+					continuation = res.continuation
+					articles.push(...items)
+					if (items.length < 250 || !continuation) break
 				} catch (e) {
-					console.error(e)
-					new Notice(`Error fetching saved articles ${e}`)
+					console.log(streamId, continuation)
+					return await stop(e)
 				}
+			}
+		}
+		console.log(articles.length, 'items')
 
-				const blockedPublishers = (this.settings.filteredPublishers ?? '')
-					.split(',')
-					.map(p => p.trim().toLowerCase())
-					.filter(p => p.length > 0)
-				const articlesToExport = articles
-					.filter(x => getContent(x) !== undefined)
-					.filter(x => {
-						const publisher = (x.origin?.title ?? '').toLowerCase()
-						return !blockedPublishers.some(p => publisher.includes(p))
-					})
-				console.log(articlesToExport.length, 'filter-items')
+		const savedIds = new Set<string>()
+		for (const streamId of recentStreams) {
+			try {
+				const savedArticles = await getRecentArticles(this.feedly, streamId, edition.lookbackDays)
+				console.log(savedArticles.length, 'saved items')
+				articles.push(...savedArticles)
+				savedArticles.forEach(x => savedIds.add(x.id))
+			} catch (e) {
+				console.error(e)
+				new Notice(`Error fetching saved articles ${e}`)
+				run?.error(`Error fetching saved articles: ${e.message}`)
+			}
+		}
+		// An article can be in several categories and boards
+		articles = [...new Map(articles.map(x => [x.id, x])).values()]
+
+		const profiles = this.settings.cleaningProfiles ?? []
+		const rules = this.settings.contentRules ?? []
+		const keepUnmatched = this.settings.keepUnmatchedArticles !== false
+		const ruleArticles = new Map(articles.map((x): [FeedlyArticle, RuleArticle] => [x, {
+			title: x.title,
+			author: x.author,
+			publisher: x.origin?.title,
+			categories: x.categories?.map(c => c.label).filter((label): label is string => !!label),
+			words: countWords(getContent(x, false, profiles) ?? ''),
+			date: x.published ?? x.crawled,
+		}]))
+		// Articles of earlier issues are left out, except for saved ones when carried forward
+		const carryForward = edition.carryForward ?? 'none'
+		const delivered = carryForward === 'all' ? undefined : this.deliveries.delivered(edition.id)
+		const skipReason = (x: FeedlyArticle) => {
+			const dropped = droppedBy(rules, ruleArticles.get(x)!, keepUnmatched)
+			if (dropped) return dropReason(dropped)
+			const issue = carryForward === 'saved' && savedIds.has(x.id) ? undefined : delivered?.entries.get(x.id)
+			if (issue !== undefined) return `Delivered in issue ${issue}`
+			return undefined
+		}
+		run?.count('Feedly articles fetched', articles.length)
+		const articlesToExport = articles
+			.filter(x => {
+				if (getContent(x) !== undefined) return true
+				run?.skip(x.title, 'No content')
+				return false
+			})
+			.filter(x => {
+				// A preview lists filtered articles too, so that they can be ticked
+				if (preview) return true
+				const reason = skipReason(x)
+				if (reason) {
+					run?.skip(x.title, reason)
+				}
+				return !reason
+			})
+		console.log(articlesToExport.length, 'filter-items')
 
-				const contents = articlesToExport
-                    .map(x => {
-                    let data = 
-    `<h2>${x.title}</h2>
+		let contents = articlesToExport
+			.map(x => {
+				let data = 
+					`<h2>${x.title}</h2>
 <pre>---${x.canonicalUrl ? `
 url: ${x.canonicalUrl}` : ''}
 feedlyUrl: https://feedly.com/i/entry/${x.id}
@@ -795,285 +1744,1208 @@ publisher: ${sanitizeFrontmatter(x.origin.title)}` : ''}
 ---</pre>
 
 `
-                    if (getContent(x)) {
-                    data += `
-                        <div>
-                        ${getContent(x)}
-                        </div>
-                    `
-                    }
+				if (getContent(x)) {
+					data += `
+						<div>
+						${getContent(x, this.settings.epubImages, profiles)}
+						</div>
+					`
+				}
 
-                    return {
-                        title: x.title,
-                        author: x.author,
-                        data,
-                        css: "img { display: none; width: 0px; height: 0px; }"
-                    }
-                })
-
-				let totalArticles = articlesToExport.length
-				// Include Instapaper articles if credentials are configured
-				if (this.settings.instapaperConsumerKey &&
-					this.settings.instapaperConsumerSecret &&
-					this.settings.instapaperUsername &&
-					this.settings.instapaperPassword) {
-					try {
-						const instapaperContents = await getInstapaperArticles(
-							this.settings.instapaperConsumerKey,
-							this.settings.instapaperConsumerSecret,
-							this.settings.instapaperUsername,
-							this.settings.instapaperPassword,
-							this.settings.instapaperLimit ?? 25,
-						)
-						contents.push(...instapaperContents)
-						totalArticles += instapaperContents.length
-						console.log(instapaperContents.length, 'instapaper articles added')
-					} catch (e) {
-						console.error(e)
-						new Notice(`Error fetching Instapaper articles: ${e}`)
+				return {
+					title: x.title,
+					author: x.author,
+					data,
+					css: "img { display: none; width: 0px; height: 0px; }"
+				}
+			})
+
+		// Feedly article of each chapter, for the cover
+		const chapterArticles = new Map(contents.map((chapter, i) => [chapter, articlesToExport[i]]))
+		// Source of each chapter, for grouping the table of contents
+		const chapterInfo = new Map<typeof contents[number], ChapterInfo>(contents.map((chapter, i) => {
+			const x = articlesToExport[i]
+			return [chapter, {
+				source: savedIds.has(x.id) ? 'Saved for later' : 'Feedly',
+				publisher: x.origin?.title,
+				categories: x.categories?.map(c => c.label).filter((label): label is string => !!label),
+				date: x.published ?? x.crawled,
+			}]
+		}))
+		// Instapaper bookmark of each chapter, to remember what this issue delivered
+		const chapterBookmarks = new Map<typeof contents[number], string>()
+		// Why the rules drop an Instapaper chapter, shown in the preview
+		const instapaperDrops = new Map<typeof contents[number], string>()
+		const sample = [...ruleArticles.values()]
+		let totalArticles = articlesToExport.length
+		// Include Instapaper articles if credentials are configured
+		const instapaper = edition.instapaper ? this.getInstapaperClient() : undefined
+		if (instapaper) {
+			try {
+				const { chapters: instapaperContents, unreadIds } = await getInstapaperArticles(
+					instapaper,
+					this.settings.instapaperLimit ?? 25,
+					run,
+					// Instapaper bookmarks are saved articles too
+					carryForward === 'none' ? delivered?.bookmarks : undefined,
+					profiles,
+					// Rules on the title, author and publisher apply before the text is fetched
+					article => {
+						const dropped = droppedBeforeText(rules, article, keepUnmatched)
+						if (!dropped || dropped === 'words') return undefined
+						// A preview fetches the article and adds it to the sample below
+						if (!preview) sample.push(article)
+						return dropReason(dropped)
+					},
+					preview,
+				)
+				if (unreadIds) {
+					await this.deliveries.keepUnreadBookmarks(edition.id, unreadIds)
+				}
+				const kept = instapaperContents.filter(chapter => {
+					const article: RuleArticle = {
+						title: chapter.title,
+						author: chapter.author === 'Unknown' ? undefined : chapter.author,
+						publisher: urlHost(chapter.url),
+						words: chapter.words,
+						date: chapter.saved,
+					}
+					sample.push(article)
+					const dropped = droppedBy(rules, article, keepUnmatched)
+					if (!dropped) return true
+					// A preview lists dropped articles too, so that they can be ticked
+					if (preview) {
+						instapaperDrops.set(chapter, dropReason(dropped))
+						return true
 					}
+					run?.skip(chapter.title, dropReason(dropped))
+					return false
+				})
+				contents.push(...kept)
+				for (const chapter of kept) {
+					chapterInfo.set(chapter, { source: 'Instapaper', publisher: urlHost(chapter.url), date: chapter.saved })
+					chapterBookmarks.set(chapter, chapter.bookmarkId)
 				}
+				totalArticles += kept.length
+				console.log(kept.length, 'instapaper articles added')
+			} catch (e) {
+				console.error(e)
+				new Notice(`Error fetching Instapaper articles: ${e}`)
+				run?.error(`Error fetching Instapaper articles: ${e.message}`)
+			}
+		}
 
-                const newPath = await generateEpub({
-                    id: '123-567',
-                    title: `Your Evening Discourse for ${new Date().toDateString()}`,
-                    publisher: 'Quillcast',
-                    author: 'Evening Discourse',
-                    content: contents,
-                    filePath,
-                })
-                console.log(`EPUB file saved to: ${newPath}`);
-
-                new Notice(`Generated ${filePath}.epub with ${totalArticles} articles`, 0)
+		await this.ruleSample.save(sample)
+
+		if (preview) {
+			type Chapter = typeof contents[number]
+			const feedlyItems = articlesToExport.map((x, i) => {
+				const reason = skipReason(x)
+				return {
+					value: contents[i],
+					label: x.title,
+					detail: reason ?? x.origin?.title,
+					selected: !reason,
+				}
+			})
+			const instapaperItems = contents.slice(articlesToExport.length).map(chapter => ({
+				value: chapter,
+				label: chapter.title,
+				detail: instapaperDrops.get(chapter) ?? chapter.author,
+				selected: !instapaperDrops.has(chapter),
+			}))
+			const groups: PreviewGroup<Chapter>[] = [{ title: 'Feedly', items: feedlyItems }]
+			if (instapaperItems.length > 0) {
+				groups.push({ title: 'Instapaper', items: instapaperItems })
 			}
-		})
+			const selected = await openPreview(this.app, {
+				title: 'Preview ePub',
+				groups,
+				confirmText: 'Generate ePub',
+				summary: (selected) => {
+					const size = selected.reduce((sum, chapter) => sum + chapter.data.length, 0)
+					return `${selected.length} of ${contents.length} articles, about ${formatSize(size)} of text before compression`
+				},
+			})
+			if (!selected) {
+				return new Notice('ePub cancelled')
+			}
+			for (const item of [...feedlyItems, ...instapaperItems]) {
+				if (!selected.includes(item.value)) {
+					run?.skip(item.label, item.selected ? 'Unticked in the preview' : item.detail ?? 'Unticked in the preview')
+				}
+			}
+			contents = selected
+			totalArticles = selected.length
+		}
 
-        this.addCommand({
-            id: 'cleanup',
-            name: 'Delete all Feedly epub files',
-            callback: async () => {
-                const deletePromises = []
-								const files = this.app.vault.getFiles(); // Get all files in the vault
+		let images: EpubImage[] | undefined = undefined
+		if (this.settings.epubImages) {
+			const collector = new EpubImageCollector({
+				maxWidth: EPUB_IMAGE_WIDTH,
+				grayscale: this.settings.epubImageGrayscale !== false,
+				budget: (this.settings.epubImageBudget ?? 10) * 1024 * 1024,
+			})
+			const progressNotice = new Notice('Downloading images...', 0)
+			let done = 0
+			for (const chapter of contents) {
+				chapter.data = await collector.embed(chapter.data)
+				progressNotice.setMessage(`Downloading images: ${++done}/${contents.length} articles, ${collector.images.length} images`)
+			}
+			progressNotice.hide()
+			images = collector.images
+			run?.count('images embedded', collector.images.length)
+			run?.count('images replaced by their alt text', collector.fallbacks)
+		}
 
-                for (const file of files) {
-                    if ((file.extension === 'epub') && file.basename.startsWith('FeedlySync')) {
-                        console.log(file.basename)
-                        deletePromises.push(this.app.fileManager.trashFile(file));
-                    }
-                }
-								await Promise.all(deletePromises)
-								new Notice(`Deleted ${deletePromises.length} files`)
-            }
-        })
+		const groups = groupChapters(
+			contents,
+			chapter => chapterInfo.get(chapter) ?? { source: 'Other' },
+			this.settings.epubGrouping ?? 'source',
+			this.settings.epubSort ?? 'feed',
+		)
+		// The cover headlines follow the order of the table of contents
+		contents = groups.flatMap(group => group.chapters)
+
+		const title = issueTitle(edition, issue, date)
+		const cover = await this.renderEpubCover(edition.name, contents, chapterArticles)
+
+		await ensureFolder(this.app, edition.folder)
+		const newPath = await generateEpub({
+			id: issueIdentifier(edition, issue),
+			title,
+			publisher: edition.publisher,
+			author: edition.author,
+			description: edition.description,
+			cover,
+			content: groups,
+			images,
+			filePath,
+			vault: this.app.vault,
+			run,
+		})
+		console.log(`EPUB file saved to: ${newPath}`);
+		run?.file(newPath)
+		run?.count('articles exported', totalArticles)
+		// The settings may have replaced the edition while the preview was open
+		const saved = this.getEditions().find(e => e.id === edition.id) ?? edition
+		saved.lastIssue = Math.max(saved.lastIssue ?? 0, issue)
+		await this.saveSettings(this.settings)
+		const entryIds = contents.map(chapter => chapterArticles.get(chapter)?.id).filter((id): id is string => id !== undefined)
+		const bookmarkIds = contents.map(chapter => chapterBookmarks.get(chapter)).filter((id): id is string => id !== undefined)
+		await this.deliveries.record(edition.id, { issue, date: Date.now(), entryIds, bookmarkIds }, edition.lookbackDays)
+
+		const markFeedlyRead = edition.markFeedlyRead ?? 'never'
+		const archiveInstapaper = edition.archiveInstapaper ?? 'never'
+		if (markFeedlyRead === 'now' || archiveInstapaper === 'now') {
+			await this.markExported(markFeedlyRead === 'now' ? entryIds : [], archiveInstapaper === 'now' ? bookmarkIds : [], run)
+		}
+		const checklistItems: ChecklistItem[] = []
+		for (const chapter of contents) {
+			const article = chapterArticles.get(chapter)
+			const bookmarkId = chapterBookmarks.get(chapter)
+			const detail = chapterInfo.get(chapter)?.publisher
+			if (article && markFeedlyRead === 'checklist') {
+				checklistItems.push({ source: 'feedly', id: article.id, title: chapter.title, detail })
+			} else if (bookmarkId && archiveInstapaper === 'checklist') {
+				checklistItems.push({ source: 'instapaper', id: bookmarkId, title: chapter.title, detail })
+			}
+		}
+		if (checklistItems.length > 0) {
+			try {
+				const checklist = await this.app.vault.create(checklistPath(filePath), renderChecklist(title, edition.id, issue, checklistItems))
+				run?.file(checklist.path)
+			} catch (e) {
+				console.error(e)
+				run?.error(`Cannot write the checklist: ${e.message}`)
+			}
+		}
 
-				this.addCommand({
-			id: 'sync-instapaper-folders',
-			name: 'Sync Instapaper folders to Markdown list',
-			callback: async () => {
-				await this.loadSettings();
-				if (
-					!this.settings.instapaperConsumerKey ||
-					!this.settings.instapaperConsumerSecret ||
-					!this.settings.instapaperUsername ||
-					!this.settings.instapaperPassword
-				) {
-					return new Notice('Missing Instapaper credentials in settings');
+		new Notice(`Generated ${filePath}.epub with ${totalArticles} articles`, 0)
+	}
+
+	/**
+	 * Marks Feedly entries as read and archives Instapaper bookmarks. Stops
+	 * marking Feedly entries at the first error, such as the rate limit.
+	 *
+	 * @returns The IDs which were marked or archived.
+	 */
+	async markExported(entryIds: string[], bookmarkIds: string[], run?: SyncRunLog) {
+		const done = { feedly: [] as string[], instapaper: [] as string[] }
+		for (let i = 0; i < entryIds.length; i += MARKERS_BATCH) {
+			const batch = entryIds.slice(i, i + MARKERS_BATCH)
+			try {
+				await this.feedly.markAsRead(batch)
+				done.feedly.push(...batch)
+			} catch (e) {
+				console.error(e)
+				if (e instanceof FeedlyRateLimitError) {
+					await this.recordRateLimit(e, run)
 				}
+				run?.error(`Cannot mark Feedly articles as read: ${e.message}`)
+				new Notice(`Cannot mark Feedly articles as read: ${e.message}`)
+				break
+			}
+		}
 
-				const progressNotice = new Notice('Syncing Instapaper folders...', 0);
-				try {
-					const client = new InstapaperClient(
-						this.settings.instapaperConsumerKey,
-						this.settings.instapaperConsumerSecret
-					);
-					const authorized = await authorizeInstapaper(
-						client,
-						this.settings.instapaperUsername,
-						this.settings.instapaperPassword,
-						this.settings.instapaperConsumerKey,
-						this.settings.instapaperConsumerSecret
-					);
-					if (!authorized) {
-						progressNotice.hide();
-						return;
+		const instapaper = bookmarkIds.length > 0 ? this.getInstapaperClient() : undefined
+		if (bookmarkIds.length > 0 && !instapaper) {
+			run?.error('Sign in to Instapaper to archive bookmarks')
+			new Notice('Sign in to Instapaper to archive bookmarks')
+		}
+		for (const id of instapaper ? bookmarkIds : []) {
+			try {
+				await instapaper!.archiveBookmark(Number(id))
+				done.instapaper.push(id)
+			} catch (e) {
+				console.error(e)
+				run?.error(`Cannot archive Instapaper bookmark ${id}: ${e.message}`)
+			}
+		}
+		run?.count('Feedly articles marked as read', done.feedly.length)
+		run?.count('Instapaper bookmarks archived', done.instapaper.length)
+		return done
+	}
+
+	/**
+	 * Marks the articles ticked in the checklist of an ePub issue as read, or
+	 * archives them, and flags them in the checklist.
+	 */
+	async applyChecklist(file: TFile) {
+		await this.recordRun('Apply ePub checklist', async (run) => {
+			const ticked = tickedItems(await this.app.vault.read(file))
+			if (ticked.feedly.length === 0 && ticked.instapaper.length === 0) {
+				return new Notice('Tick the articles you read first')
+			}
+			const done = await this.markExported(ticked.feedly, ticked.instapaper, run)
+			await this.app.vault.process(file, (content) => markApplied(markApplied(content, 'feedly', done.feedly), 'instapaper', done.instapaper))
+			run.file(file.path)
+			new Notice(`Marked ${done.feedly.length} Feedly articles as read and archived ${done.instapaper.length} Instapaper bookmarks`)
+		})
+	}
+
+	/**
+	 * Renders the cover of an ePub with its date, article count, first headlines
+	 * and the icons of its most frequent Feedly sources.
+	 *
+	 * @returns The cover, or undefined if covers are turned off or rendering failed.
+	 */
+	async renderEpubCover(title: string, chapters: { title: string }[], chapterArticles: Map<unknown, FeedlyArticle>) {
+		const style = this.settings.coverStyle ?? 'classic'
+		if (style === 'none') return undefined
+
+		const sourceCounts = new Map<string, { name: string, streamId?: string, count: number }>()
+		for (const chapter of chapters) {
+			const origin = chapterArticles.get(chapter)?.origin
+			if (!origin?.title) continue
+			const source = sourceCounts.get(origin.title) ?? { name: origin.title, streamId: origin.streamId, count: 0 }
+			source.count++
+			sourceCounts.set(origin.title, source)
+		}
+		const topSources = [...sourceCounts.values()].sort((a, b) => b.count - a.count).slice(0, 6)
+
+		const icons = new Map<string, string>()
+		if (style !== 'minimal' && topSources.length > 0) {
+			try {
+				for (const subscription of await this.feedly.getSubscriptions()) {
+					const icon = subscription.iconUrl ?? subscription.visualUrl
+					if (icon) {
+						icons.set(subscription.id, icon)
 					}
+				}
+			} catch (e) {
+				// The cover falls back to the initials of the sources
+				console.warn('Cannot fetch Feedly subscriptions for the cover', e)
+			}
+		}
 
-					// Fetch custom folders from Instapaper
-					const folderListRes = await client.getFolders().catch(() => []);
-					const customFolders = Array.isArray(folderListRes)
-						? folderListRes.filter((f: any) => f && f.type === 'folder' && f.folder_id && f.title)
-						: [];
+		try {
+			return await renderCover({
+				title,
+				date: new Date(),
+				articleCount: chapters.length,
+				headlines: chapters.map(chapter => chapter.title),
+				sources: topSources.map(source => ({ name: source.name, iconUrl: source.streamId ? icons.get(source.streamId) : undefined })),
+				style,
+			})
+		} catch (e) {
+			console.error('Cannot render the ePub cover', e)
+			return undefined
+		}
+	}
 
-					const foldersToSync: { id: string | number; title: string }[] = customFolders.map((f: any) => ({
-						id: f.folder_id,
-						title: f.title
-					}));
+	/**
+	 * Writes the bookmarks of every Instapaper folder to a Markdown list. When
+	 * the user started the sync, the changes can be reviewed before overwriting it.
+	 */
+	async syncInstapaperFolders(run?: SyncRunLog, interactive = false) {
+		await this.loadSettings();
+		const client = this.getInstapaperClient();
+		if (!client) {
+			run?.error('Not signed in to Instapaper');
+			return new Notice('Sign in to Instapaper in the plugin settings');
+		}
 
-					const articleGroups: SyncedArticleGroup[] = [];
+		const progressNotice = new Notice('Syncing Instapaper folders...', 0);
+		try {
+			// Fetch custom folders from Instapaper
+			const folderListRes = await client.getFolders().catch(() => []);
+			const customFolders = Array.isArray(folderListRes)
+				? folderListRes.filter((f: any) => f && f.type === 'folder' && f.folder_id && f.title)
+				: [];
 
-					for (const folder of foldersToSync) {
-						progressNotice.setMessage(`Syncing Instapaper folder: ${folder.title}...`);
-						const rawBookmarks: any[] = [];
-						const haveIds: string[] = [];
+			const foldersToSync: { id: string | number; title: string }[] = customFolders.map((f: any) => ({
+				id: f.folder_id,
+				title: f.title
+			}));
 
-						while (true) {
-							const response = await client.getBookmarks(500, folder.id, haveIds.join(',')).catch(e => {
-								console.error(`Error fetching folder ${folder.title}:`, e);
-								return null;
-							});
+			const articleGroups: SyncedArticleGroup[] = [];
 
-							if (!response || !Array.isArray(response)) break;
+			for (const folder of foldersToSync) {
+				progressNotice.setMessage(`Syncing Instapaper folder: ${folder.title}...`);
+				const rawBookmarks: any[] = [];
+				const haveIds: string[] = [];
 
-							const pageBookmarks = response.filter((b: any) => b && b.type === 'bookmark' && b.title && b.title.trim().length > 0);
-							if (pageBookmarks.length === 0) break;
+				while (true) {
+					const response = await client.getBookmarks(500, folder.id, haveIds.join(',')).catch(e => {
+						console.error(`Error fetching folder ${folder.title}:`, e);
+						run?.error(`Error fetching folder ${folder.title}: ${e.message}`);
+						return null;
+					});
 
-							let newCount = 0;
-							for (const b of pageBookmarks) {
-								const bIdStr = String(b.bookmark_id);
-								if (b.bookmark_id && !haveIds.includes(bIdStr)) {
-									haveIds.push(bIdStr);
-									rawBookmarks.push(b);
-									newCount++;
-								}
-							}
+					if (!response || !Array.isArray(response)) break;
 
-							progressNotice.setMessage(`Syncing Instapaper folder: ${folder.title} (${rawBookmarks.length} articles)...`);
+					const pageBookmarks = response.filter((b: any) => b && b.type === 'bookmark' && b.title && b.title.trim().length > 0);
+					if (pageBookmarks.length === 0) break;
 
-							if (newCount === 0 || pageBookmarks.length < 500) break;
+					let newCount = 0;
+					for (const b of pageBookmarks) {
+						const bIdStr = String(b.bookmark_id);
+						if (b.bookmark_id && !haveIds.includes(bIdStr)) {
+							haveIds.push(bIdStr);
+							rawBookmarks.push(b);
+							newCount++;
 						}
+					}
 
-						if (rawBookmarks.length === 0) continue;
+					progressNotice.setMessage(`Syncing Instapaper folder: ${folder.title} (${rawBookmarks.length} articles)...`);
 
-						const articles: SyncedArticleItem[] = rawBookmarks.map((b: any) => ({
-							title: b.title.trim(),
-							primaryUrl: b.bookmark_id ? `https://www.instapaper.com/read/${b.bookmark_id}` : (b.url || ''),
-							date: b.time ? dateToJournal(new Date(b.time * 1000)) : undefined,
-							originalUrl: b.url || undefined,
-							author: b.author || undefined,
-							// No useful description
-							// description: b.description || undefined
-						}));
+					if (newCount === 0 || pageBookmarks.length < 500) break;
+				}
 
-						articleGroups.push({ groupTitle: folder.title, articles });
-					}
+				if (rawBookmarks.length === 0) continue;
 
-					const { content: markdownContent, totalArticles } = generateGroupedArticlesMarkdown('Instapaper Saved Articles', articleGroups, 'Saved');
+				const articles: SyncedArticleItem[] = rawBookmarks.map((b: any) => ({
+					title: b.title.trim(),
+					primaryUrl: b.bookmark_id ? `https://www.instapaper.com/read/${b.bookmark_id}` : (b.url || ''),
+					date: b.time ? dateToJournal(new Date(b.time * 1000)) : undefined,
+					originalUrl: b.url || undefined,
+					author: b.author || undefined,
+					// No useful description
+					// description: b.description || undefined
+				}));
 
+				articleGroups.push({ groupTitle: folder.title, articles });
+			}
 
-					const folderName = this.settings.annotationsFolder ?? 'Feedly Annotations';
-					const fileName = this.settings.instapaperFoldersFileName || 'Instapaper Folders';
-					const filePath = await saveSyncedMarkdownFile(this.app, folderName, fileName, markdownContent);
+			const { content: markdownContent, totalArticles } = generateGroupedArticlesMarkdown('Instapaper Saved Articles', articleGroups, 'Saved');
 
-					progressNotice.hide();
-					new Notice(`Synced ${totalArticles} articles across Instapaper folders to ${filePath}`);
-				} catch (e: any) {
-					console.error('Error syncing Instapaper folders:', e);
-					progressNotice.hide();
-					new Notice(`Error syncing Instapaper folders: ${e.message || e}`);
+
+			const folderName = this.settings.annotationsFolder ?? 'Feedly Annotations';
+			const fileName = this.settings.instapaperFoldersFileName || 'Instapaper Folders';
+			progressNotice.hide();
+			const confirm = interactive && this.settings.confirmListOverwrites !== false;
+			const filePath = await saveSyncedMarkdownFile(this.app, folderName, fileName, markdownContent, confirm);
+			if (!filePath) {
+				run?.count('lists kept unchanged');
+				return new Notice(`Kept ${fileName} unchanged`);
+			}
+			run?.file(filePath);
+			run?.count('articles listed', totalArticles);
+
+			new Notice(`Synced ${totalArticles} articles across Instapaper folders to ${filePath}`);
+		} catch (e: any) {
+			console.error('Error syncing Instapaper folders:', e);
+			run?.error(`Error syncing Instapaper folders: ${e.message || e}`);
+			progressNotice.hide();
+			new Notice(`Error syncing Instapaper folders: ${e.message || e}`);
+		}
+	}
+
+	/**
+	 * Writes annotations to the notes of their entries, creating the notes
+	 * which do not exist yet.
+	 *
+	 * @param syncedFiles - Collects the note of each entry, to save their articles afterwards.
+	 */
+	async processAnnotations(entries: FeedlyAnnotatedEntry[], syncedFiles: Map<string, TFile>, run?: SyncRunLog) {
+		for (const e of entries) {
+			let obsidianFile = this.entryIndex.getFile(e.entry.id)
+			if (!obsidianFile) {
+				const basePath = getEntryNotePath(e, this.settings)
+				const path = `${basePath}.md`
+				const existingFile = this.app.vault.getFileByPath(path)
+				const existingEntryId = existingFile ? this.entryIndex.getEntryId(existingFile.path) : undefined
+				if (existingFile && (existingEntryId === undefined || existingEntryId === e.entry.id)) {
+					// A note without a feedlyUrl, e.g. from a template which omits it
+					obsidianFile = existingFile
+				} else {
+					obsidianFile = await createEntryFile(this.app, basePath)
+					await initializeEntryFile(this.app, obsidianFile, e, this.settings.noteTemplate)
+					run?.count('notes created')
 				}
+				this.entryIndex.set(e.entry.id, obsidianFile)
 			}
-		});
+			// Boards can change after the first annotation, so update them on every sync
+			await setEntryTags(this.app.fileManager, obsidianFile, e, this.settings)
+			// Add the highlight or comment of this entry, or
+			// update it if an earlier sync already added it
+			const appendContent = getAppendContent(e, this.settings.annotationTemplate)
+			if (appendContent) {
+				const blockId = getAnnotationBlockId(e)
+				await this.app.vault.process(obsidianFile, (data) => upsertAnnotationBlock(data, blockId, appendContent))
+			}
+			syncedFiles.set(e.entry.id, obsidianFile)
+			run?.file(obsidianFile.path)
+			run?.count('annotations synced')
+		}
+	}
 
-		this.addCommand({
-			id: 'sync-feedly-boards',
-			name: 'Sync Feedly boards to Markdown list',
-			callback: async () => {
-				await this.loadSettings();
-				if (!this.settings.userId) {
-					return new Notice('Missing Feedly user id');
+	/**
+	 * Writes the articles of every Feedly board to a Markdown list. When the
+	 * user started the sync, the changes can be reviewed before overwriting it.
+	 */
+	async syncFeedlyBoards(run?: SyncRunLog, interactive = false) {
+		await this.loadSettings();
+		if (!this.settings.userId) {
+			run?.error('Missing Feedly user id');
+			return new Notice('Missing Feedly user id');
+		}
+		if (!this.settings.accessToken) {
+			run?.error('Missing Feedly access token');
+			return new Notice('Missing Feedly access token');
+		}
+
+		const progressNotice = new Notice('Fetching Feedly boards...', 0);
+		try {
+			const tags = await this.feedly.getTags();
+
+			if (tags.length === 0) {
+				progressNotice.hide();
+				return new Notice('No Feedly boards found');
+			}
+
+			const articleGroups: SyncedArticleGroup[] = [];
+
+			for (const tag of tags) {
+				// Format tag label (or extract from tag ID if label is missing)
+				const label = tag.label || tag.id.split('/').pop() || 'Untitled Board';
+				progressNotice.setMessage(`Syncing Feedly board: ${label}...`);
+
+				const fetchedItems: FeedlyArticle[] = [];
+				let continuation: string | undefined = undefined;
+
+				while (true) {
+					const res = await this.feedly.getStreamContents(tag.id, { continuation });
+
+					if (res.items.length === 0) break;
+
+					const validItems = res.items.filter(item => item && item.title && item.title.trim().length > 0);
+					fetchedItems.push(...validItems);
+
+					progressNotice.setMessage(`Syncing Feedly board: ${label} (${fetchedItems.length} articles)...`);
+
+					continuation = res.continuation;
+					if (!continuation || res.items.length < 250) break;
 				}
-				if (!this.settings.accessToken) {
-					return new Notice('Missing Feedly access token');
+
+				if (fetchedItems.length === 0) continue;
+
+				const articles: SyncedArticleItem[] = fetchedItems.map(a => ({
+					title: a.title.trim(),
+					primaryUrl: `https://feedly.com/i/entry/${a.id}`,
+					date: dateToJournal(new Date(a.published ?? a.crawled ?? 0)),
+					originalUrl: a.canonicalUrl || undefined,
+					publisher: a.origin?.title || undefined,
+					author: a.author || undefined
+				}));
+
+				articleGroups.push({ groupTitle: label, articles });
+			}
+
+			const { content: markdownContent, totalArticles } = generateGroupedArticlesMarkdown('Feedly Board Articles', articleGroups, 'Published');
+
+			const folderName = this.settings.annotationsFolder ?? 'Feedly Annotations';
+			const fileName = this.settings.feedlyBoardsFileName || 'Feedly Boards';
+			progressNotice.hide();
+			const confirm = interactive && this.settings.confirmListOverwrites !== false;
+			const filePath = await saveSyncedMarkdownFile(this.app, folderName, fileName, markdownContent, confirm);
+			if (!filePath) {
+				run?.count('lists kept unchanged');
+				return new Notice(`Kept ${fileName} unchanged`);
+			}
+			run?.file(filePath);
+			run?.count('articles listed', totalArticles);
+
+			new Notice(`Synced ${totalArticles} articles across Feedly boards to ${filePath}`);
+		} catch (e: any) {
+			console.error('Error syncing Feedly boards:', e);
+			if (e instanceof FeedlyRateLimitError) {
+				await this.recordRateLimit(e, run);
+			} else {
+				run?.error(`Error syncing Feedly boards: ${e.message || e}`);
+			}
+			progressNotice.hide();
+			new Notice(`Error syncing Feedly boards: ${e.message || e}`);
+		}
+	}
+
+	/**
+	 * Saves the full article of an entry with its highlights marked, either in
+	 * a collapsed callout at the end of the note or in a linked note next to it.
+	 */
+	async saveEntryArticle(file: TFile, entryId: string) {
+		if (!this.settings.accessToken) return
+		const article = await this.feedly.getEntry(entryId)
+		if (!article) return
+		const highlights = parseAnnotations(await this.app.vault.read(file), 0)
+			.map(a => a.highlight)
+			.filter((h): h is string => h !== undefined)
+		const markdown = getArticleMarkdown(article, highlights, this.settings.cleaningProfiles)
+		if (!markdown) return
+
+		if (this.settings.saveArticle === 'collapsed') {
+			const block = `\n\n${quoteLines(`[!abstract]- Full article\n${markdown}`, '> ')} ^${ARTICLE_BLOCK_ID}`
+			await this.app.vault.process(file, (data) => {
+				// Move the article after any annotations added since it was saved
+				const lines = data.split('\n')
+				const range = findBlockRange(lines, ARTICLE_BLOCK_ID)
+				if (range) {
+					lines.splice(range.start, range.end - range.start + 1)
 				}
+				return lines.join('\n').trimEnd() + block
+			})
+			return
+		}
 
-				const progressNotice = new Notice('Fetching Feedly boards...', 0);
-				try {
-					const tags: { id: string; label?: string }[] = await apiCall(
-						this.settings.accessToken,
-						'tags'
-					);
-
-					if (!tags || !Array.isArray(tags) || tags.length === 0) {
-						progressNotice.hide();
-						return new Notice('No Feedly boards found');
-					}
+		// Reuse the linked note, even if either note was renamed
+		const linkLine = (await this.app.vault.read(file)).split('\n').find(line => line.trimEnd().endsWith(` ^${ARTICLE_BLOCK_ID}`))
+		const linkPath = linkLine ? /\[\[([^\]|]+)/.exec(linkLine)?.[1] : undefined
+		let articleFile = linkPath ? this.app.metadataCache.getFirstLinkpathDest(linkPath, file.path) : null
+		const content = `# ${article.title}\n\n${markdown}\n`
+		if (articleFile) {
+			await this.app.vault.modify(articleFile, content)
+		} else {
+			const folderPath = file.parent?.path ?? ''
+			articleFile = await createEntryFile(this.app, normalizePath(`${folderPath}/${file.basename} - Article`))
+			await this.app.vault.modify(articleFile, content)
+		}
+		const link = this.app.fileManager.generateMarkdownLink(articleFile, file.path)
+		await this.app.vault.process(file, (data) => upsertAnnotationBlock(data, ARTICLE_BLOCK_ID, `\n\nFull article: ${link} ^${ARTICLE_BLOCK_ID}`))
+	}
 
-					const articleGroups: SyncedArticleGroup[] = [];
+	/**
+	 * Sends the quotes and comment callouts added in Obsidian to Feedly, and
+	 * tags them with the block ID of the created annotation.
+	 */
+	async pushAnnotations(run: SyncRunLog) {
+		if (!this.settings.accessToken) {
+			run.error('Missing Feedly access token')
+			return new Notice('Missing Feedly access token')
+		}
+		const notes = getAnnotationNotes(this.app, this.entryIndex)
+		if (notes.length === 0) {
+			return new Notice('No annotation notes to push')
+		}
 
-					for (const tag of tags) {
-						// Format tag label (or extract from tag ID if label is missing)
-						const label = tag.label || tag.id.split('/').pop() || 'Untitled Board';
-						progressNotice.setMessage(`Syncing Feedly board: ${label}...`);
+		// Blocks synced before block IDs existed are matched to these rather than pushed again
+		const progressNotice = new Notice('Fetching all Feedly annotations...', 0)
+		let remote: Map<string, FeedlyAnnotatedEntry[]>
+		try {
+			remote = await getEntryAnnotations(this.feedly, new Set(notes.map(n => n.entryId)))
+		} catch (e) {
+			console.error(e)
+			if (e instanceof FeedlyRateLimitError) {
+				await this.recordRateLimit(e, run)
+			}
+			run.error(`Could not fetch every Feedly annotation, nothing was pushed: ${e.message}`)
+			progressNotice.hide()
+			return new Notice(`Could not fetch every Feedly annotation, nothing was pushed: ${e.message}`)
+		}
 
-						const fetchedItems: FeedlyArticle[] = [];
-						let continuation: string | undefined = undefined;
+		progressNotice.setMessage('Pushing annotations to Feedly...')
+		let pushedCount = 0
+		for (const { file, entryId, bodyStart } of notes) {
+			const original = await this.app.vault.read(file)
+			const { local: localAnnotations, synced } = findLocalAnnotations(original, bodyStart, remote.get(entryId) ?? [])
+			if (localAnnotations.length === 0 && synced.length === 0) continue
+
+			const originalLines = original.split('\n')
+			const pushed: { endLine: number, line: string, blockId: string }[] = synced.map(({ annotation, blockId }) => ({
+				endLine: annotation.endLine,
+				line: originalLines[annotation.endLine],
+				blockId,
+			}))
+			run.count('synced annotations tagged', synced.length)
+			let stop = false
+			try {
+				for (const annotation of localAnnotations) {
+					const blockId = await createFeedlyAnnotation(this.feedly, entryId, annotation)
+					pushed.push({ endLine: annotation.endLine, line: originalLines[annotation.endLine], blockId })
+					pushedCount++
+					run.count('annotations pushed')
+					progressNotice.setMessage(`Pushing annotations to Feedly... (${pushedCount})`)
+				}
+			} catch (e) {
+				console.error(`Error pushing annotations of ${file.path}`, e)
+				new Notice(`Error pushing annotations of ${file.path}: ${e.message}`)
+				if (e instanceof FeedlyRateLimitError) {
+					await this.recordRateLimit(e, run)
+				} else {
+					run.error(`${file.path}: ${e.message}`)
+				}
+				// Pushing the remaining files would fail the same way
+				stop = e instanceof FeedlyAuthError || e instanceof FeedlyRateLimitError
+			}
+			await this.tagPushedAnnotations(file, pushed)
+			if (pushed.length > 0) {
+				run.file(file.path)
+			}
+			if (stop) break
+		}
+		progressNotice.hide()
+		new Notice(`Pushed ${pushedCount} annotations to Feedly`)
+	}
 
-						while (true) {
-							const query = continuation ? `&continuation=${continuation}` : '';
-							const res = (await apiCall(
-								this.settings.accessToken,
-								`streams/contents?streamId=${encodeURIComponent(tag.id)}&count=250${query}`
-							)) as { items?: FeedlyArticle[]; continuation?: string };
+	/**
+	 * Compares the synced annotations of every note with Feedly, and removes
+	 * or flags those deleted or edited there.
+	 */
+	async reconcileAnnotations(run: SyncRunLog) {
+		if (!this.settings.accessToken) {
+			run.error('Missing Feedly access token')
+			return new Notice('Missing Feedly access token')
+		}
+		const notes = getAnnotationNotes(this.app, this.entryIndex)
+		const noteEntryIds = new Set(notes.map(n => n.entryId))
+		if (noteEntryIds.size === 0) {
+			return new Notice('No annotation notes to reconcile')
+		}
 
-							if (!res || !res.items || res.items.length === 0) break;
+		const progressNotice = new Notice('Fetching all Feedly annotations...', 0)
+		let annotations: Map<string, FeedlyAnnotatedEntry[]>
+		try {
+			annotations = await getEntryAnnotations(this.feedly, noteEntryIds)
+		} catch (e) {
+			// Reconciling against a partial set would treat the rest as deleted
+			console.error(e)
+			if (e instanceof FeedlyRateLimitError) {
+				await this.recordRateLimit(e, run)
+			}
+			run.error(`Could not fetch every Feedly annotation, nothing was changed: ${e.message}`)
+			progressNotice.hide()
+			return new Notice(`Could not fetch every Feedly annotation, nothing was changed: ${e.message}`)
+		}
+		// Rendered annotations that Feedly still has, per entry and block ID
+		const remote = new Map<string, Map<string, string>>()
+		for (const [entryId, entries] of annotations) {
+			const rendered = new Map<string, string>()
+			for (const e of entries) {
+				const content = getAppendContent(e, this.settings.annotationTemplate)
+				if (content) {
+					rendered.set(getAnnotationBlockId(e), content)
+				}
+			}
+			remote.set(entryId, rendered)
+		}
 
-							const validItems = res.items.filter(item => item && item.title && item.title.trim().length > 0);
-							fetchedItems.push(...validItems);
+		const action = this.settings.reconcileAction ?? 'flag'
+		let deleted = 0
+		let edited = 0
+		for (const { file, entryId } of notes) {
+			await this.app.vault.process(file, (data) => {
+				const result = reconcileAnnotationNote(data, remote.get(entryId) ?? new Map(), action)
+				deleted += result.deleted
+				edited += result.edited
+				if (result.deleted + result.edited > 0) {
+					run.file(file.path)
+				}
+				return result.content
+			})
+		}
+		progressNotice.hide()
+		const verb = action === 'update' ? 'Removed' : 'Flagged'
+		run.count(`deleted annotations ${verb.toLowerCase()}`, deleted)
+		run.count(`edited annotations ${verb.toLowerCase()}`, edited)
+		new Notice(`${verb} ${deleted} deleted and ${edited} edited annotations`)
+	}
+
+	/**
+	 * Tags annotations that were pushed to Feedly with their block ID, so they
+	 * are not pushed again and a later sync updates them in place.
+	 */
+	async tagPushedAnnotations(file: TFile, pushed: { endLine: number, line: string, blockId: string }[]) {
+		if (pushed.length === 0) return
+		await this.app.vault.process(file, (data) => {
+			const lines = data.split('\n')
+			for (const p of pushed) {
+				if (lines[p.endLine] === p.line) {
+					lines[p.endLine] = `${p.line.trimEnd()} ^${p.blockId}`
+				} else {
+					console.warn(`${file.path} changed while pushing, could not tag line ${p.endLine}`)
+				}
+			}
+			return lines.join('\n')
+		})
+	}
 
-							progressNotice.setMessage(`Syncing Feedly board: ${label} (${fetchedItems.length} articles)...`);
+	/**
+	 * Runs a job, unless another job is already running on this device or,
+	 * according to the synced settings, on another one.
+	 *
+	 * @param job - Job to run.
+	 * @param scheduled - Whether the scheduler started the job, rather than the user.
+	 * @param preview - Whether to show what the sync or ePub will contain before writing it.
+	 * @param editionId - Edition to generate, rather than all of them.
+	 * @returns Whether the job ran.
+	 */
+	async runJob(job: JobId, scheduled = false, preview = false, editionId?: string): Promise<boolean> {
+		if (this.runningJob) {
+			if (!scheduled) {
+				new Notice(`Wait for "${JOB_NAMES[this.runningJob]}" to finish`)
+			}
+			return false
+		}
+		// Pick up locks and runs of other devices
+		await this.loadSettings()
+		const lock = this.settings.jobLock
+		if (lock && lock.device !== this.deviceId && lock.expires > Date.now()) {
+			if (!scheduled) {
+				new Notice(`Wait for "${JOB_NAMES[lock.job]}" to finish on another device`)
+			}
+			return false
+		}
 
-							continuation = res.continuation;
-							if (!continuation || res.items.length < 250) break;
-						}
+		this.runningJob = job
+		this.settings.jobLock = { device: this.deviceId, job, expires: Date.now() + JOB_LOCK_TIMEOUT }
+		await this.saveSettings(this.settings)
+		try {
+			const jobs: Record<JobId, (run: SyncRunLog) => Promise<unknown>> = {
+				'sync': (run) => this.syncAnnotations(run, preview),
+				'epub': (run) => this.generateEditions(run, preview, editionId),
+				'sync-feedly-boards': (run) => this.syncFeedlyBoards(run, !scheduled),
+				'sync-instapaper-folders': (run) => this.syncInstapaperFolders(run, !scheduled),
+				'push-annotations': (run) => this.pushAnnotations(run),
+				'reconcile-annotations': (run) => this.reconcileAnnotations(run),
+			}
+			const edition = this.getEditions().find(e => e.id === editionId)
+			const jobName = edition ? `${JOB_NAMES[job]}: ${edition.name}` : JOB_NAMES[job]
+			const name = scheduled ? `${jobName} (scheduled)` : preview ? `${jobName} (preview)` : jobName
+			await this.recordRun(name, jobs[job])
+		} catch (e) {
+			console.error(`Error running ${job}`, e)
+			new Notice(`Error running "${JOB_NAMES[job]}": ${e.message}`)
+		} finally {
+			// Jobs reload the settings, so start from what they saved
+			await this.loadSettings()
+			this.settings.jobLastRun = { ...this.settings.jobLastRun, [job]: Date.now() }
+			this.settings.jobLock = undefined
+			await this.saveSettings(this.settings)
+			this.runningJob = undefined
+		}
+		return true
+	}
 
-						if (fetchedItems.length === 0) continue;
+	/**
+	 * Records that a job reached the Feedly API rate limit, so that the
+	 * scheduler holds back Feedly jobs until it resets.
+	 *
+	 * @returns When the limit resets.
+	 */
+	async recordRateLimit(e: FeedlyRateLimitError, run?: SyncRunLog) {
+		const resetAt = e.resetAt ?? Date.now() + RATE_LIMIT_RETRY
+		this.settings.rateLimitedUntil = resetAt
+		await this.saveSettings(this.settings)
+		run?.rateLimit(resetAt)
+		return resetAt
+	}
 
-						const articles: SyncedArticleItem[] = fetchedItems.map(a => ({
-							title: a.title.trim(),
-							primaryUrl: `https://feedly.com/i/entry/${a.id}`,
-							date: dateToJournal(new Date(a.published ?? a.crawled ?? 0)),
-							originalUrl: a.canonicalUrl || undefined,
-							publisher: a.origin?.title || undefined,
-							author: a.author || undefined
-						}));
+	/**
+	 * Runs a command and records it in the sync history. Errors are recorded,
+	 * then thrown again.
+	 */
+	async recordRun(name: string, task: (run: SyncRunLog) => Promise<unknown>) {
+		const run = await this.history.start(name)
+		try {
+			await task(run)
+		} catch (e) {
+			run.error(e.message)
+			throw e
+		} finally {
+			await this.history.finish(run)
+		}
+	}
 
-						articleGroups.push({ groupTitle: label, articles });
-					}
+	/**
+	 * ePub editions, starting with the one the plugin generated before editions
+	 * were configurable.
+	 */
+	getEditions(): EpubEdition[] {
+		if (!this.settings.epubEditions || this.settings.epubEditions.length === 0) {
+			this.settings.epubEditions = [defaultEdition()]
+		}
+		return this.settings.epubEditions
+	}
 
-					const { content: markdownContent, totalArticles } = generateGroupedArticlesMarkdown('Feedly Board Articles', articleGroups, 'Published');
+	/**
+	 * Adds a command per edition, replacing the commands of removed and
+	 * renamed editions. Obsidian before 1.7.2 cannot remove commands, so there
+	 * the commands of removed editions stay until the plugin is reloaded.
+	 */
+	registerEditionCommands() {
+		if (requireApiVersion('1.7.2')) {
+			for (const id of this.editionCommands) {
+				this.removeCommand(id)
+			}
+		}
+		this.editionCommands = []
+		for (const edition of this.getEditions()) {
+			const id = `epub-edition-${edition.id}`
+			this.addCommand({
+				id,
+				name: `Generate ePub: ${edition.name}`,
+				callback: () => this.runJob('epub', false, false, edition.id),
+			})
+			this.editionCommands.push(id)
+		}
+	}
 
-					const folderName = this.settings.annotationsFolder ?? 'Feedly Annotations';
-					const fileName = this.settings.feedlyBoardsFileName || 'Feedly Boards';
-					const filePath = await saveSyncedMarkdownFile(this.app, folderName, fileName, markdownContent);
+	async openSyncHistory() {
+		let leaf = this.app.workspace.getLeavesOfType(SYNC_HISTORY_VIEW)[0]
+		if (!leaf) {
+			leaf = this.app.workspace.getRightLeaf(false) ?? this.app.workspace.getLeaf('tab')
+			await leaf.setViewState({ type: SYNC_HISTORY_VIEW, active: true })
+		}
+		this.app.workspace.revealLeaf(leaf)
+	}
 
-					progressNotice.hide();
-					new Notice(`Synced ${totalArticles} articles across Feedly boards to ${filePath}`);
-				} catch (e: any) {
-					console.error('Error syncing Feedly boards:', e);
-					progressNotice.hide();
-					new Notice(`Error syncing Feedly boards: ${e.message || e}`);
-				}
+	/**
+	 * Runs the jobs which are due, and resumes an annotation sync which
+	 * stopped at the rate limit once the limit has reset.
+	 */
+	async runScheduledJobs() {
+		await this.checkFeedlyToken()
+		const now = Date.now()
+		const rateLimited = (this.settings.rateLimitedUntil ?? 0) > now
+		for (const job of SCHEDULED_JOBS) {
+			if (rateLimited && FEEDLY_JOBS.includes(job)) continue
+			const interval = this.settings.jobIntervals?.[job] ?? 0
+			const lastRun = this.settings.jobLastRun?.[job] ?? 0
+			const due = interval > 0 && now - lastRun >= interval * 60 * 1000
+			const resume = job === 'sync' && this.settings.rateLimitedUntil !== undefined && this.settings.continuationToken !== undefined
+			if (due || resume) {
+				// One job at a time, the others get their turn on the next tick
+				await this.runJob(job, true)
+				return
 			}
-		});
+		}
+	}
+
+	/**
+	 * Creates an Instapaper client with the stored OAuth token.
+	 *
+	 * @returns The client, or undefined until the consumer key and secret are set and the user signed in.
+	 */
+	getInstapaperClient(): InstapaperClient | undefined {
+		const { instapaperConsumerKey, instapaperConsumerSecret, instapaperTokenKey, instapaperTokenSecret } = this.settings
+		if (!instapaperConsumerKey || !instapaperConsumerSecret || !instapaperTokenKey || !instapaperTokenSecret) {
+			return undefined
+		}
+		return new InstapaperClient(instapaperConsumerKey, instapaperConsumerSecret, instapaperTokenKey, instapaperTokenSecret, this.transport.request)
+	}
+
+	/**
+	 * Trades the username and password for an OAuth token, once. Only the
+	 * token and username are stored.
+	 */
+	async signInToInstapaper(username: string, password: string) {
+		const { instapaperConsumerKey, instapaperConsumerSecret } = this.settings
+		if (!instapaperConsumerKey || !instapaperConsumerSecret) {
+			throw new Error('Set the Instapaper consumer key and secret first')
+		}
+		const client = new InstapaperClient(instapaperConsumerKey, instapaperConsumerSecret, undefined, undefined, this.transport.request)
+		const token = await client.authenticate(username, password)
+		if (!token.key || !token.secret) {
+			throw new Error('Instapaper did not return a token')
+		}
+		this.settings.instapaperUsername = username
+		this.settings.instapaperTokenKey = token.key
+		this.settings.instapaperTokenSecret = token.secret
+		delete this.settings.instapaperPassword
+		await this.saveSettings(this.settings)
+	}
+
+	async signOutOfInstapaper() {
+		delete this.settings.instapaperUsername
+		delete this.settings.instapaperTokenKey
+		delete this.settings.instapaperTokenSecret
+		delete this.settings.instapaperPassword
+		await this.saveSettings(this.settings)
+	}
+
+	/**
+	 * Replaces a password stored by earlier versions with an OAuth token, and
+	 * removes the password even if signing in fails.
+	 */
+	async migrateInstapaperPassword() {
+		const { instapaperUsername, instapaperPassword, instapaperTokenKey } = this.settings
+		if (instapaperPassword === undefined) return
+		if (instapaperUsername && instapaperPassword && !instapaperTokenKey) {
+			try {
+				await this.signInToInstapaper(instapaperUsername, instapaperPassword)
+			} catch (e) {
+				console.error('Cannot sign in to Instapaper with the stored password', e)
+				new Notice('The Instapaper password is no longer stored. Sign in to Instapaper again in the plugin settings.')
+			}
+		}
+		delete this.settings.instapaperPassword
+		await this.saveSettings(this.settings)
+	}
+
+	/**
+	 * Turns the comma-separated publishers of older settings into exclude rules.
+	 */
+	async migrateFilteredPublishers() {
+		const { filteredPublishers } = this.settings
+		if (filteredPublishers === undefined) return
+		const rules = filteredPublishers
+			.split(',')
+			.map(p => p.trim())
+			.filter(p => p.length > 0)
+			.map((value): ContentRule => ({ action: 'exclude', field: 'publisher', operator: 'contains', value }))
+		this.settings.contentRules = [...(this.settings.contentRules ?? []), ...rules]
+		delete this.settings.filteredPublishers
+		await this.saveSettings(this.settings)
+	}
+
+	/**
+	 * Turns off the tags which older versions added by default, as their
+	 * defaults were saved with the rest of the settings. Mappings the user
+	 * picked are kept.
+	 */
+	async migrateTagMapping() {
+		const { tagMapping, tagMappingChosen } = this.settings
+		if (tagMappingChosen || !tagMapping) return
+		if (tagMapping.boards === 'tags' && tagMapping.categories === 'tags' && tagMapping.keywords === 'none') {
+			this.settings.tagMapping = { ...DEFAULT_SETTINGS.tagMapping! }
+			await this.saveSettings(this.settings)
+		}
+	}
+
+	/**
+	 * Estimates when a token pasted before expiry dates were kept expires,
+	 * counting from now since when it was issued is unknown. Dates kept
+	 * without a refresh token can only be estimates too, so they are labelled.
+	 */
+	async migrateTokenExpiry() {
+		const { accessToken, accessTokenExpires, accessTokenExpiresEstimated, refreshToken } = this.settings
+		if (!accessToken || accessTokenExpiresEstimated !== undefined) return
+		if (accessTokenExpires !== undefined && refreshToken) return
+		this.settings.accessTokenExpires = accessTokenExpires ?? Date.now() + DEV_TOKEN_LIFETIME
+		this.settings.accessTokenExpiresEstimated = true
+		await this.saveSettings(this.settings)
+	}
+
+	/**
+	 * Replaces the Feedly access token, and the refresh token if one is given.
+	 * The sync continues from where it stopped with the new token.
+	 */
+	async setFeedlyToken(accessToken: string, refreshToken?: string) {
+		if (accessToken !== this.settings.accessToken) {
+			this.settings.accessToken = accessToken
+			this.settings.accessTokenExpires = accessToken ? Date.now() + DEV_TOKEN_LIFETIME : undefined
+			this.settings.accessTokenExpiresEstimated = accessToken ? true : undefined
+			this.tokenWarningShown = false
+		}
+		if (refreshToken !== undefined) {
+			this.settings.refreshToken = refreshToken || undefined
+		}
+		await this.saveSettings(this.settings)
+	}
 
+	/**
+	 * Trades the refresh token for a new access token.
+	 *
+	 * @returns The new access token, or undefined without a refresh token or if Feedly rejected it.
+	 */
+	async refreshFeedlyToken(): Promise<string | undefined> {
+		const refreshToken = this.settings.refreshToken
+		if (!refreshToken) return undefined
+		try {
+			const token = await this.feedly.refreshAccessToken(refreshToken)
+			this.settings.accessToken = token.accessToken
+			this.settings.accessTokenExpires = token.expiresAt
+			this.settings.accessTokenExpiresEstimated = undefined
+			this.settings.refreshToken = token.refreshToken ?? refreshToken
+			this.settings.userId = this.settings.userId || token.userId
+			await this.saveSettings(this.settings)
+			this.tokenWarningShown = false
+			return token.accessToken
+		} catch (e) {
+			console.error('Cannot refresh the Feedly access token', e)
+			return undefined
+		}
+	}
 
+	/**
+	 * Renews an access token which expires soon, or warns about it once per
+	 * session if it cannot be renewed.
+	 */
+	async checkFeedlyToken() {
+		const expires = this.settings.accessTokenExpires
+		if (!this.settings.accessToken || expires === undefined || this.tokenWarningShown) return
+		if (expires - Date.now() > TOKEN_EXPIRY_WARNING) return
+		if (await this.refreshFeedlyToken()) return
+		this.tokenWarningShown = true
+		const date = new Date(expires).toLocaleDateString()
+		const probably = this.settings.accessTokenExpiresEstimated ? ' probably' : ''
+		new Notice(expires < Date.now()
+			? `Your Feedly access token${probably} expired on ${date}. Paste a new one in the plugin settings.`
+			: `Your Feedly access token${probably} expires on ${date}. Paste a new one in the plugin settings before then.`, 0)
+	}
 
+	/**
+	 * Describes when the Feedly access token expires, if known, and whether
+	 * that date is an estimate.
+	 */
+	describeTokenExpiry(): string | undefined {
+		const expires = this.settings.accessTokenExpires
+		if (!this.settings.accessToken || expires === undefined) return undefined
+		const date = new Date(expires).toLocaleDateString()
+		const estimate = this.settings.accessTokenExpiresEstimated ? ' (estimated from when it was pasted)' : ''
+		if (expires < Date.now()) return `Expired on ${date}${estimate}`
+		return this.settings.refreshToken ? `Renews automatically, current token expires on ${date}${estimate}` : `Expires on ${date}${estimate}`
+	}
 
-		this.addSettingTab(new FeedlySettingTab(this.app, this));
+	/**
+	 * Describes how many Feedly API calls are left, once a response reported it.
+	 */
+	describeRateLimit(): string | undefined {
+		const remaining = this.feedly.remainingCalls
+		if (remaining === undefined) return undefined
+		const { limit, resetAt } = this.feedly.rateLimit
+		const reset = resetAt !== undefined && resetAt > Date.now() ? `, resets at ${new Date(resetAt).toLocaleTimeString()}` : ''
+		return `${remaining} of ${limit} Feedly API calls left${reset}`
+	}
+
+	/**
+	 * Identifies this device in job locks. Kept in local storage, which is not synced.
+	 */
+	get deviceId(): string {
+		const key = 'feedly-annotations-device-id'
+		let id = window.localStorage.getItem(key)
+		if (!id) {
+			id = `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 10)}`
+			window.localStorage.setItem(key, id)
+		}
+		return id
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.feedly.setAccessToken(this.settings.accessToken);
+		this.transport.mode = this.settings.transportMode ?? 'live';
 	}
 
 	async saveSettings(settings: FeedlySettings) {
+		this.feedly.setAccessToken(settings.accessToken);
+		this.transport.mode = settings.transportMode ?? 'live';
 		await this.saveData(settings);
 	}
 }
 
+function describeProfile(profile: FeedlyProfile) {
+	const name = profile.fullName || [profile.givenName, profile.familyName].filter(Boolean).join(' ')
+	if (name && profile.email) return `${name} (${profile.email})`
+	return name || profile.email || profile.id
+}
+
+/**
+ * Asks for the tokens from Feedly's developer token page, then checks that
+ * they work before saving them.
+ */
+class FeedlyTokenModal extends Modal {
+	constructor(app: App, private plugin: FeedlyPlugin, private onSaved: () => void) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		let accessToken = '';
+		let refreshToken = '';
+
+		this.setTitle('Connect to Feedly');
+		contentEl.createEl('p', { text: 'Sign in on the Feedly page which just opened, then paste the tokens it shows. Your sync continues where it stopped.' });
+
+		new Setting(contentEl)
+			.setName('Access token')
+			.addText((component) => component.onChange((value) => accessToken = value.trim()));
+
+		new Setting(contentEl)
+			.setName('Refresh token')
+			.setDesc('Optional. Renews the access token automatically.')
+			.addText((component) => component.onChange((value) => refreshToken = value.trim()));
+
+		const status = new Setting(contentEl)
+			.addButton((component) => {
+				component.setButtonText('Save');
+				component.setCta();
+				component.onClick(async () => {
+					if (!accessToken) {
+						status.setDesc('Paste an access token first');
+						return;
+					}
+					status.setDesc('Connecting...');
+					const { accessToken: previousToken, refreshToken: previousRefresh, accessTokenExpires: previousExpires, accessTokenExpiresEstimated: previousEstimated } = this.plugin.settings;
+					await this.plugin.setFeedlyToken(accessToken, refreshToken);
+					try {
+						const profile = await this.plugin.feedly.getProfile();
+						if (!this.plugin.settings.userId) {
+							this.plugin.settings.userId = profile.id;
+							await this.plugin.saveSettings(this.plugin.settings);
+						}
+						new Notice(`Connected to Feedly as ${describeProfile(profile)}`);
+						this.close();
+						this.onSaved();
+					} catch (e) {
+						console.error(e);
+						// Keep the token which worked before
+						this.plugin.settings.accessToken = previousToken;
+						this.plugin.settings.refreshToken = previousRefresh;
+						this.plugin.settings.accessTokenExpires = previousExpires;
+						this.plugin.settings.accessTokenExpiresEstimated = previousEstimated;
+						await this.plugin.saveSettings(this.plugin.settings);
+						status.setDesc(`Cannot connect: ${e.message}`);
+					}
+				});
+			});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
 class FeedlySettingTab extends PluginSettingTab {
 	plugin: FeedlyPlugin;
-	settings: FeedlySettings;
+
+	/**
+	 * Jobs reload the plugin settings, so a copy kept by the tab would save
+	 * over their progress, such as the sync position and job lock.
+	 */
+	get settings(): FeedlySettings {
+		return this.plugin.settings;
+	}
 
 	constructor(app: App, plugin: FeedlyPlugin) {
 		super(app, plugin);
@@ -1084,9 +2956,142 @@ class FeedlySettingTab extends PluginSettingTab {
 		this.display();
 	}
 
+	/**
+	 * Lists the content rules, each with how many articles of the latest ePub
+	 * it drops.
+	 */
+	displayContentRules(containerEl: HTMLElement) {
+		const sample = this.plugin.ruleSample
+		const rules = this.settings.contentRules ?? []
+		const fetched = sample.fetched ? ` Counts are from the ${sample.articles.length} articles fetched for the latest ePub, on ${new Date(sample.fetched).toLocaleString()}.` : ' Generate an ePub to see how many articles each rule drops.'
+		new Setting(containerEl)
+			.setName('Content rules')
+			.setDesc(`Keep or drop Feedly and Instapaper articles of ePubs by publisher, author, title, category, word count or age. The first matching rule wins.${fetched}`)
+			.addButton((component) => {
+				component.setButtonText('Add rule')
+				component.onClick(async () => {
+					this.settings.contentRules = [...rules, { action: 'exclude', field: 'title', operator: 'contains', value: '' }]
+					await this.plugin.saveSettings(this.settings)
+					this.display()
+				})
+			})
+
+		const rows: [ContentRule | 'unmatched', Setting][] = []
+		const updateCounts = () => {
+			const drops = sample.countDrops(rules, this.settings.keepUnmatchedArticles !== false)
+			for (const [rule, row] of rows) {
+				if (rule !== 'unmatched') {
+					row.setName(describeRule(rule))
+				}
+				if (sample.fetched) {
+					row.setDesc(`Drops ${drops.get(rule) ?? 0} of ${sample.articles.length} articles`)
+				}
+			}
+		}
+		const save = async () => {
+			await this.plugin.saveSettings(this.settings)
+			updateCounts()
+		}
+
+		rules.forEach((rule, index) => {
+			const numeric = !TEXT_FIELDS.includes(rule.field)
+			const row = new Setting(containerEl)
+				.addDropdown((dropdown) => {
+					dropdown.addOption('exclude', 'Exclude')
+					dropdown.addOption('include', 'Include')
+					dropdown.setValue(rule.action)
+					dropdown.onChange(async (value) => {
+						rule.action = value as ContentRule['action']
+						await save()
+					})
+				})
+				.addDropdown((dropdown) => {
+					dropdown.addOption('title', 'Title')
+					dropdown.addOption('publisher', 'Publisher')
+					dropdown.addOption('author', 'Author')
+					dropdown.addOption('category', 'Feedly category')
+					dropdown.addOption('words', 'Word count')
+					dropdown.addOption('age', 'Age in days')
+					dropdown.setValue(rule.field)
+					dropdown.onChange(async (value) => {
+						rule.field = value as RuleField
+						// Text and number fields have different operators
+						if (TEXT_FIELDS.includes(rule.field) === numeric) {
+							rule.operator = numeric ? 'contains' : 'below'
+						}
+						await this.plugin.saveSettings(this.settings)
+						this.display()
+					})
+				})
+				.addDropdown((dropdown) => {
+					if (numeric) {
+						dropdown.addOption('below', 'Below')
+						dropdown.addOption('above', 'Above')
+					} else {
+						dropdown.addOption('contains', 'Contains')
+						dropdown.addOption('matches', 'Matches regex')
+					}
+					dropdown.setValue(rule.operator)
+					dropdown.onChange(async (value) => {
+						rule.operator = value as RuleOperator
+						await save()
+					})
+				})
+				.addText((component) => {
+					component.setPlaceholder(numeric ? '300' : 'sponsored')
+					component.setValue(rule.value)
+					component.onChange(async (value) => {
+						rule.value = value
+						await save()
+					})
+				})
+				.addToggle((toggle) => {
+					toggle.setTooltip('Turn the rule on or off')
+					toggle.setValue(!rule.disabled)
+					toggle.onChange(async (value) => {
+						rule.disabled = !value || undefined
+						await save()
+					})
+				})
+				.addExtraButton((component) => {
+					component.setIcon('arrow-up')
+					component.setTooltip('Move up')
+					component.setDisabled(index === 0)
+					component.onClick(async () => {
+						rules.splice(index - 1, 2, rule, rules[index - 1])
+						await this.plugin.saveSettings(this.settings)
+						this.display()
+					})
+				})
+				.addExtraButton((component) => {
+					component.setIcon('trash')
+					component.setTooltip('Remove rule')
+					component.onClick(async () => {
+						this.settings.contentRules = rules.filter(r => r !== rule)
+						await this.plugin.saveSettings(this.settings)
+						this.display()
+					})
+				})
+			rows.push([rule, row])
+		})
+
+		const unmatched = new Setting(containerEl)
+			.setName('Articles matching no rule')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('keep', 'Keep')
+				dropdown.addOption('drop', 'Drop')
+				dropdown.setValue(this.settings.keepUnmatchedArticles === false ? 'drop' : 'keep')
+				dropdown.onChange(async (value) => {
+					this.settings.keepUnmatchedArticles = value === 'keep'
+					await save()
+				})
+			})
+		rows.push(['unmatched', unmatched])
+		updateCounts()
+	}
+
 	display(): void {
 		const {containerEl} = this;
-		this.settings = this.plugin.settings ?? DEFAULT_SETTINGS;
 
 		containerEl.empty();
 
@@ -1100,13 +3105,58 @@ class FeedlySettingTab extends PluginSettingTab {
 				})
 			})
 
-		new Setting(containerEl)
+		// Tokens are saved once the field loses focus, so that the expiry is estimated from the whole token
+		const describeToken = () => [this.plugin.describeTokenExpiry(), this.plugin.describeRateLimit()].filter(Boolean).join('. ')
+		const accessToken = new Setting(containerEl)
 			.setName('Access token')
+			.setDesc(describeToken())
 			.addText((component) => {
 				component.setValue(this.settings.accessToken ?? '')
-				component.onChange(async (value) => {
-					this.settings.accessToken = value
-					await this.plugin.saveSettings(this.settings)
+				component.inputEl.addEventListener('change', async () => {
+					await this.plugin.setFeedlyToken(component.getValue().trim())
+					accessToken.setDesc(describeToken())
+				})
+			})
+
+		new Setting(containerEl)
+			.setName('Refresh token')
+			.setDesc('Optional. Renews the access token automatically before it expires.')
+			.addText((component) => {
+				component.setValue(this.settings.refreshToken ?? '')
+				component.inputEl.addEventListener('change', async () => {
+					await this.plugin.setFeedlyToken(this.settings.accessToken ?? '', component.getValue().trim())
+				})
+			})
+
+		const connection = new Setting(containerEl)
+			.setName('Feedly account')
+			.setDesc('Get a new developer token, or check that the current one works')
+			.addButton((component) => {
+				component.setButtonText('Get a new token')
+				component.onClick(() => {
+					window.open(FEEDLY_DEV_TOKEN_URL)
+					new FeedlyTokenModal(this.app, this.plugin, () => this.display()).open()
+				})
+			})
+			.addButton((component) => {
+				component.setButtonText('Test connection')
+				component.onClick(async () => {
+					connection.setDesc('Connecting...')
+					try {
+						const profile = await this.plugin.feedly.getProfile()
+						connection.setDesc([
+							`Connected as ${describeProfile(profile)}`,
+							this.plugin.describeTokenExpiry(),
+							this.plugin.describeRateLimit(),
+						].filter(Boolean).join('. '))
+						if (!this.settings.userId) {
+							this.settings.userId = profile.id
+							await this.plugin.saveSettings(this.settings)
+						}
+					} catch (e) {
+						console.error(e)
+						connection.setDesc(`Cannot connect: ${e.message}`)
+					}
 				})
 			})
 
@@ -1136,71 +3186,449 @@ class FeedlySettingTab extends PluginSettingTab {
 			})
 
 			new Setting(containerEl)
-				.setName('Filtered publishers')
-				.setDesc('Comma-separated list of publishers to exclude from epub generation (e.g. "The Guardian, BBC News")')
-				.addText((component) => {
-					component.setPlaceholder('Publisher A, Publisher B')
-					component.setValue(this.settings.filteredPublishers ?? '')
-					component.onChange(async (value) => {
-						this.settings.filteredPublishers = value
+				.setName('ePub editions')
+				.setDesc('Each edition takes articles from its own Feedly sources into its own folder, and has a "Generate ePub" command')
+				.addButton((component) => {
+					component.setButtonText('Add edition')
+					component.onClick(() => {
+						new EditionModal(this.app, newEdition('New edition'), async (edition) => {
+							this.settings.epubEditions = [...this.plugin.getEditions(), edition]
+							await this.plugin.saveSettings(this.settings)
+							this.plugin.registerEditionCommands()
+							this.display()
+						}).open()
+					})
+				})
+
+			for (const edition of this.plugin.getEditions()) {
+				const sources = edition.sources.length > 0 ? edition.sources.join(', ') : 'All unread articles'
+				new Setting(containerEl)
+					.setName(edition.name)
+					.setDesc(`${sources}. ${edition.lastIssue ? `${edition.lastIssue} issues` : 'No issues yet'}, saved to ${edition.folder || 'the vault root'}.`)
+					.addExtraButton((component) => {
+						component.setIcon('pencil')
+						component.setTooltip('Edit edition')
+						component.onClick(() => {
+							new EditionModal(this.app, edition, async (edited) => {
+								// Issues generated while the edition was being edited still count
+								this.settings.epubEditions = this.plugin.getEditions().map(e => e.id === edition.id
+									? { ...edited, lastIssue: Math.max(e.lastIssue ?? 0, edited.lastIssue ?? 0) || undefined }
+									: e)
+								await this.plugin.saveSettings(this.settings)
+								this.plugin.registerEditionCommands()
+								this.display()
+							}).open()
+						})
+					})
+					.addExtraButton((component) => {
+						component.setIcon('rotate-ccw')
+						component.setTooltip('Forget delivered articles, so that the next issue can include them again')
+						component.setDisabled(this.plugin.deliveries.issueCount(edition.id) === 0)
+						component.onClick(async () => {
+							await this.plugin.deliveries.forget(edition.id)
+							new Notice(`The next issue of ${edition.name} can include articles of earlier issues again`)
+							this.display()
+						})
+					})
+					.addExtraButton((component) => {
+						component.setIcon('trash')
+						component.setTooltip('Remove edition')
+						component.setDisabled(this.plugin.getEditions().length === 1)
+						component.onClick(async () => {
+							this.settings.epubEditions = this.plugin.getEditions().filter(e => e !== edition)
+							await this.plugin.saveSettings(this.settings)
+							await this.plugin.deliveries.forget(edition.id)
+							this.plugin.registerEditionCommands()
+							this.display()
+						})
+					})
+			}
+
+			new Setting(containerEl)
+				.setName('Include images in ePub')
+				.setDesc('Download the images of articles, scaled down for e-readers. Images which fail to download or do not fit in the size limit are replaced by their description.')
+				.addToggle((toggle) => {
+					toggle.setValue(this.settings.epubImages ?? false)
+					toggle.onChange(async (value) => {
+						this.settings.epubImages = value
+						await this.plugin.saveSettings(this.settings)
+					})
+				})
+
+			new Setting(containerEl)
+				.setName('Grayscale ePub images')
+				.setDesc('Smaller files, and e-ink screens show no color anyway')
+				.addToggle((toggle) => {
+					toggle.setValue(this.settings.epubImageGrayscale !== false)
+					toggle.onChange(async (value) => {
+						this.settings.epubImageGrayscale = value
+						await this.plugin.saveSettings(this.settings)
+					})
+				})
+
+			new Setting(containerEl)
+				.setName('ePub image size limit')
+				.setDesc('Total megabytes of images in each ePub')
+				.addSlider((slider) => {
+					slider
+						.setLimits(1, 100, 1)
+						.setValue(this.settings.epubImageBudget ?? 10)
+						.setDynamicTooltip()
+						.onChange(async (value) => {
+							this.settings.epubImageBudget = value
+							await this.plugin.saveSettings(this.settings)
+						})
+				})
+
+			new Setting(containerEl)
+				.setName('ePub cover')
+				.setDesc('Cover with the date, article count, headlines and sources of each ePub')
+				.addDropdown((dropdown) => {
+					dropdown.addOption('classic', 'Newspaper')
+					dropdown.addOption('dark', 'Newspaper, dark')
+					dropdown.addOption('minimal', 'Title and date only')
+					dropdown.addOption('none', 'No cover')
+					dropdown.setValue(this.settings.coverStyle ?? 'classic')
+					dropdown.onChange(async (value) => {
+						this.settings.coverStyle = value as CoverStyle | 'none'
+						await this.plugin.saveSettings(this.settings)
+					})
+				})
+
+			new Setting(containerEl)
+				.setName('Group ePub chapters')
+				.setDesc('Each group gets a header page and its own level in the table of contents')
+				.addDropdown((dropdown) => {
+					dropdown.addOption('source', 'By source (Feedly, saved for later, Instapaper)')
+					dropdown.addOption('category', 'By Feedly category')
+					dropdown.addOption('publisher', 'By publisher')
+					dropdown.addOption('none', 'Do not group')
+					dropdown.setValue(this.settings.epubGrouping ?? 'source')
+					dropdown.onChange(async (value) => {
+						this.settings.epubGrouping = value as EpubGrouping
+						await this.plugin.saveSettings(this.settings)
+					})
+				})
+
+			new Setting(containerEl)
+				.setName('Sort ePub chapters')
+				.setDesc('Order of the chapters inside each group')
+				.addDropdown((dropdown) => {
+					dropdown.addOption('feed', 'As fetched')
+					dropdown.addOption('newest', 'Newest first')
+					dropdown.addOption('oldest', 'Oldest first')
+					dropdown.addOption('title', 'By title')
+					dropdown.setValue(this.settings.epubSort ?? 'feed')
+					dropdown.onChange(async (value) => {
+						this.settings.epubSort = value as EpubSort
 						await this.plugin.saveSettings(this.settings)
 					})
 				})
 
+			this.displayContentRules(containerEl)
+
 			new Setting(containerEl)
-				.setName('Create a developer access token')
+				.setName('Cleaning profiles')
+				.setDesc('Remove the sponsor blocks, preambles and footers of some publishers or feeds from ePubs and saved articles. The first matching profile wins.')
 				.addButton((component) => {
-					component.setButtonText('Connect')
+					component.setButtonText('Add profile')
 					component.onClick(() => {
-						const feedlyDevUrl = 'https://feedly.com/v3/auth/dev'
-						window.location.href = feedlyDevUrl
+						const profile: CleaningProfile = { name: 'New profile', match: '', removeSelectors: [] }
+						new CleaningProfileModal(this.app, profile, async (saved) => {
+							this.settings.cleaningProfiles = [...(this.settings.cleaningProfiles ?? []), saved]
+							await this.plugin.saveSettings(this.settings)
+							this.display()
+						}).open()
 					})
 				})
 
-		new Setting(containerEl).setName('Instapaper (optional)').setHeading()
+			for (const profile of this.settings.cleaningProfiles ?? []) {
+				const parts = [
+					profile.removeSelectors.length > 0 ? `removes ${profile.removeSelectors.length} selectors` : '',
+					profile.startAfter ? `starts after "${profile.startAfter}"` : '',
+					profile.stopBefore ? `stops before "${profile.stopBefore}"` : '',
+					profile.keepTables ? 'keeps tables' : '',
+				].filter(Boolean)
+				new Setting(containerEl)
+					.setName(profile.name)
+					.setDesc(`${profile.match || 'Matches nothing yet'}${parts.length > 0 ? `: ${parts.join(', ')}` : ''}`)
+					.addExtraButton((component) => {
+						component.setIcon('pencil')
+						component.setTooltip('Edit profile')
+						component.onClick(() => {
+							new CleaningProfileModal(this.app, profile, async (saved) => {
+								this.settings.cleaningProfiles = (this.settings.cleaningProfiles ?? []).map(p => p === profile ? saved : p)
+								await this.plugin.saveSettings(this.settings)
+								this.display()
+							}).open()
+						})
+					})
+					.addExtraButton((component) => {
+						component.setIcon('trash')
+						component.setTooltip('Remove profile')
+						component.onClick(async () => {
+							this.settings.cleaningProfiles = (this.settings.cleaningProfiles ?? []).filter(p => p !== profile)
+							await this.plugin.saveSettings(this.settings)
+							this.display()
+						})
+					})
+			}
 
 		new Setting(containerEl)
-			.setName('Instapaper consumer key')
-			.setDesc('OAuth consumer key from your Instapaper API application')
+			.setName('Deleted and edited annotations')
+			.setDesc('What reconciling does with synced annotations that were deleted or edited in Feedly')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('flag', `Flag with ${DELETED_FLAG} or ${EDITED_FLAG}`)
+				dropdown.addOption('update', 'Remove deleted and update edited')
+				dropdown.setValue(this.settings.reconcileAction ?? 'flag')
+				dropdown.onChange(async (value) => {
+					this.settings.reconcileAction = value as 'update' | 'flag'
+					await this.plugin.saveSettings(this.settings)
+				})
+			})
+
+		new Setting(containerEl)
+			.setName('Save full article')
+			.setDesc('Save the content of each synced article as Markdown, with highlights marked, so it can be read after it goes offline')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('none', 'Do not save')
+				dropdown.addOption('collapsed', 'Collapsed in the note')
+				dropdown.addOption('sibling', 'Linked note next to it')
+				dropdown.setValue(this.settings.saveArticle ?? 'none')
+				dropdown.onChange(async (value) => {
+					this.settings.saveArticle = value as FeedlySettings['saveArticle']
+					await this.plugin.saveSettings(this.settings)
+				})
+			})
+
+		new Setting(containerEl).setName('Schedule (optional)').setHeading()
+
+		new Setting(containerEl)
+			.setName('Sync on startup')
+			.setDesc('Sync annotated articles when Obsidian starts')
+			.addToggle((component) => {
+				component.setValue(this.settings.syncOnStartup ?? false)
+				component.onChange(async (value) => {
+					this.settings.syncOnStartup = value
+					await this.plugin.saveSettings(this.settings)
+				})
+			})
+
+		for (const job of SCHEDULED_JOBS) {
+			new Setting(containerEl)
+				.setName(`${JOB_NAMES[job]} every`)
+				.setDesc('Minutes between runs. Leave empty to only run it from the command palette.')
+				.addText((component) => {
+					component.inputEl.type = 'number'
+					component.inputEl.min = '0'
+					component.setPlaceholder('Never')
+					component.setValue(this.settings.jobIntervals?.[job]?.toString() ?? '')
+					component.onChange(async (value) => {
+						const minutes = Math.max(0, Number(value) || 0)
+						this.settings.jobIntervals = { ...this.settings.jobIntervals, [job]: minutes || undefined }
+						await this.plugin.saveSettings(this.settings)
+					})
+				})
+		}
+
+		new Setting(containerEl).setName('Tags (optional)').setHeading()
+
+		const tagTargets: Record<TagTarget, string> = {
+			tags: 'Obsidian tags',
+			property: 'List property',
+			none: 'Do not add',
+		}
+		const tagKinds: { kind: 'boards' | 'categories' | 'keywords', name: string }[] = [
+			{ kind: 'boards', name: 'Feedly boards' },
+			{ kind: 'categories', name: 'Feedly categories' },
+			{ kind: 'keywords', name: 'Feedly keywords and entities' },
+		]
+		for (const { kind, name } of tagKinds) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(`Added as tags, or as a "${kind}" property`)
+				.addDropdown((dropdown) => {
+					dropdown.addOptions(tagTargets)
+					dropdown.setValue({ ...DEFAULT_SETTINGS.tagMapping!, ...this.settings.tagMapping }[kind])
+					dropdown.onChange(async (value) => {
+						const mapping = { ...DEFAULT_SETTINGS.tagMapping!, ...this.settings.tagMapping }
+						this.settings.tagMapping = { ...mapping, [kind]: value as TagTarget }
+						this.settings.tagMappingChosen = true
+						await this.plugin.saveSettings(this.settings)
+					})
+				})
+		}
+
+		new Setting(containerEl)
+			.setName('Tag prefix')
+			.setDesc('Prefix of tags created from Feedly, e.g. "feedly" for #feedly/board-name. Leave empty for no prefix.')
 			.addText((component) => {
-				component.setValue(this.settings.instapaperConsumerKey ?? '')
+				component.setValue(this.settings.tagPrefix ?? '')
 				component.onChange(async (value) => {
-					this.settings.instapaperConsumerKey = value
+					this.settings.tagPrefix = value
 					await this.plugin.saveSettings(this.settings)
 				})
 			})
 
+		new Setting(containerEl).setName('Templates (optional)').setHeading()
+
 		new Setting(containerEl)
-			.setName('Instapaper consumer secret')
+			.setName('Note path template')
+			.setDesc('Path of a new annotation note inside the sync directory. Use / for subfolders. Adds {{year}}, {{month}}, {{day}} of publication and {{category}} to the note variables.')
 			.addText((component) => {
-				component.setValue(this.settings.instapaperConsumerSecret ?? '')
+				component.setPlaceholder('{{publisher}}/{{year}}/{{pubDate}} {{title}}')
+				component.setValue(this.settings.notePathTemplate ?? '{{title}}')
 				component.onChange(async (value) => {
-					this.settings.instapaperConsumerSecret = value
+					this.settings.notePathTemplate = value
+					await this.plugin.saveSettings(this.settings)
+				})
+			})
+
+		new Setting(containerEl)
+			.setName('Folder rules')
+			.setDesc('Send new notes whose publisher or Feedly category contains some text to another folder. The first matching rule wins.')
+			.addButton((component) => {
+				component.setButtonText('Add rule')
+				component.onClick(async () => {
+					this.settings.noteRoutes = [...(this.settings.noteRoutes ?? []), { match: 'publisher', value: '', folder: '' }]
+					await this.plugin.saveSettings(this.settings)
+					this.display()
+				})
+			})
+
+		for (const route of this.settings.noteRoutes ?? []) {
+			new Setting(containerEl)
+				.addDropdown((dropdown) => {
+					dropdown.addOption('publisher', 'Publisher contains')
+					dropdown.addOption('category', 'Category contains')
+					dropdown.setValue(route.match)
+					dropdown.onChange(async (value) => {
+						route.match = value as NoteRoute['match']
+						await this.plugin.saveSettings(this.settings)
+					})
+				})
+				.addText((component) => {
+					component.setPlaceholder('IEEE Spectrum')
+					component.setValue(route.value)
+					component.onChange(async (value) => {
+						route.value = value
+						await this.plugin.saveSettings(this.settings)
+					})
+				})
+				.addText((component) => {
+					component.setPlaceholder('Folder')
+					component.setValue(route.folder)
+					component.onChange(async (value) => {
+						route.folder = value
+						await this.plugin.saveSettings(this.settings)
+					})
+				})
+				.addExtraButton((component) => {
+					component.setIcon('trash')
+					component.setTooltip('Remove rule')
+					component.onClick(async () => {
+						this.settings.noteRoutes = (this.settings.noteRoutes ?? []).filter(r => r !== route)
+						await this.plugin.saveSettings(this.settings)
+						this.display()
+					})
+				})
+		}
+
+		new Setting(containerEl)
+			.setName('Note template')
+			.setDesc('Content of a new annotation note. Variables: {{title}}, {{author}}, {{publisher}}, {{url}}, {{feedlyUrl}}, {{entryId}}, {{date}}, {{pubDate}}. Leave empty for the default frontmatter.')
+			.addTextArea((component) => {
+				component.setPlaceholder('---\nsource:: {{url}}\n---\n# {{title}}')
+				component.setValue(this.settings.noteTemplate ?? '')
+				component.onChange(async (value) => {
+					this.settings.noteTemplate = value
+					await this.plugin.saveSettings(this.settings)
+				})
+			})
+
+		new Setting(containerEl)
+			.setName('Annotation template')
+			.setDesc('Content of each highlight or comment. Adds {{highlight}} and {{comment}} to the note variables. Wrap text in {{#comment}}…{{/comment}} to only show it when there is a comment. Blank lines are removed so the annotation stays a single block.')
+			.addTextArea((component) => {
+				component.setPlaceholder('> [!quote]\n> {{highlight}}{{#comment}}\n> {{comment}}{{/comment}}')
+				component.setValue(this.settings.annotationTemplate ?? '')
+				component.onChange(async (value) => {
+					this.settings.annotationTemplate = value
 					await this.plugin.saveSettings(this.settings)
 				})
 			})
 
+		new Setting(containerEl).setName('Instapaper (optional)').setHeading()
+
 		new Setting(containerEl)
-			.setName('Instapaper username')
+			.setName('Instapaper consumer key')
+			.setDesc('OAuth consumer key from your Instapaper API application')
 			.addText((component) => {
-				component.setValue(this.settings.instapaperUsername ?? '')
+				component.setValue(this.settings.instapaperConsumerKey ?? '')
 				component.onChange(async (value) => {
-					this.settings.instapaperUsername = value
+					this.settings.instapaperConsumerKey = value
 					await this.plugin.saveSettings(this.settings)
 				})
 			})
 
 		new Setting(containerEl)
-			.setName('Instapaper password')
+			.setName('Instapaper consumer secret')
 			.addText((component) => {
-				component.inputEl.type = 'password'
-				component.setValue(this.settings.instapaperPassword ?? '')
+				component.setValue(this.settings.instapaperConsumerSecret ?? '')
 				component.onChange(async (value) => {
-					this.settings.instapaperPassword = value
+					this.settings.instapaperConsumerSecret = value
 					await this.plugin.saveSettings(this.settings)
 				})
 			})
 
+		if (this.settings.instapaperTokenKey) {
+			new Setting(containerEl)
+				.setName('Instapaper account')
+				.setDesc(`Signed in as ${this.settings.instapaperUsername ?? 'unknown'}`)
+				.addButton((component) => {
+					component.setButtonText('Sign out')
+					component.onClick(async () => {
+						await this.plugin.signOutOfInstapaper()
+						this.display()
+					})
+				})
+		} else {
+			// The password is only used to sign in, and never saved
+			let username = this.settings.instapaperUsername ?? ''
+			let password = ''
+
+			new Setting(containerEl)
+				.setName('Instapaper username')
+				.addText((component) => {
+					component.setValue(username)
+					component.onChange((value) => username = value.trim())
+				})
+
+			new Setting(containerEl)
+				.setName('Instapaper password')
+				.addText((component) => {
+					component.inputEl.type = 'password'
+					component.onChange((value) => password = value)
+				})
+
+			const signIn = new Setting(containerEl)
+				.setName('Sign in to Instapaper')
+				.setDesc('Stores an access token instead of your password')
+				.addButton((component) => {
+					component.setButtonText('Sign in')
+					component.onClick(async () => {
+						try {
+							await this.plugin.signInToInstapaper(username, password)
+							new Notice(`Signed in to Instapaper as ${username}`)
+							this.display()
+						} catch (e) {
+							console.error(e)
+							signIn.setDesc(`Cannot sign in: ${e.message}`)
+						}
+					})
+				})
+		}
+
 		new Setting(containerEl)
 			.setName('Instapaper bookmark limit')
 			.setDesc('Maximum number of unread Instapaper bookmarks to include when generating ePub')
@@ -1218,6 +3646,17 @@ class FeedlySettingTab extends PluginSettingTab {
 
 		new Setting(containerEl).setName('Folder Syncing (optional)').setHeading()
 
+		new Setting(containerEl)
+			.setName('Review changes before overwriting')
+			.setDesc('Show what changes in the board or folder list before a sync you start overwrites it. Scheduled syncs overwrite it directly.')
+			.addToggle((toggle) => {
+				toggle.setValue(this.settings.confirmListOverwrites !== false)
+				toggle.onChange(async (value) => {
+					this.settings.confirmListOverwrites = value
+					await this.plugin.saveSettings(this.settings)
+				})
+			})
+
 		new Setting(containerEl)
 			.setName('Instapaper folders filename')
 			.setDesc('Name of the Markdown file (without .md extension) where Instapaper folders will be synced')
@@ -1240,7 +3679,21 @@ class FeedlySettingTab extends PluginSettingTab {
 				})
 			});
 
+		new Setting(containerEl).setName('Developer (optional)').setHeading()
 
+		new Setting(containerEl)
+			.setName('Network mode')
+			.setDesc('Record saves every Feedly and Instapaper response to the fixtures folder of the plugin. Replay answers requests from those files without using the network. Sign-in and token requests are never recorded.')
+			.addDropdown((dropdown) => {
+				dropdown.addOption('live', 'Live')
+				dropdown.addOption('record', 'Record responses')
+				dropdown.addOption('replay', 'Replay recorded responses')
+				dropdown.setValue(this.settings.transportMode ?? 'live')
+				dropdown.onChange(async (value) => {
+					this.settings.transportMode = value as TransportMode
+					await this.plugin.saveSettings(this.settings)
+				})
+			})
 
 		// containerEl.createEl("h2", { text: "Debug" });
 
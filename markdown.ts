@@ -0,0 +1,441 @@
+/**
+ * Converts article HTML, including newsletter layouts built from nested
+ * tables, into Markdown for notes in the vault.
+ */
+
+const ELEMENT_NODE = 1
+const TEXT_NODE = 3
+
+/** Elements whose content is never part of the article. */
+const SKIPPED_TAGS = new Set([
+	'script', 'style', 'head', 'title', 'meta', 'link', 'noscript', 'template',
+	'iframe', 'svg', 'canvas', 'button', 'form', 'input', 'select', 'textarea',
+])
+
+/** Elements rendered as their own paragraph. */
+const BLOCK_TAGS = new Set([
+	'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'aside', 'nav',
+	'center', 'figure', 'address', 'details', 'summary', 'tbody', 'thead', 'tfoot',
+	'tr', 'td', 'th', 'caption', 'dl', 'dd',
+])
+
+/** Block elements which make a table cell hold layout rather than data. */
+const LAYOUT_CELL_TAGS = 'p, div, table, h1, h2, h3, h4, h5, h6, ul, ol, blockquote, pre, img'
+
+/**
+ * Indentation of nested list content. Kept apart from regular whitespace,
+ * which is trimmed from every line, until the conversion is done.
+ */
+const INDENT = '\u0001'
+
+/**
+ * Private use character around the index of a preformatted block, which
+ * stands in for the block until the conversion is done.
+ */
+const PRE_MARK = '\uE000'
+
+/** `id` of a footnote definition, e.g. `fn1`, `footnote-2` or `fn:3`. */
+const FOOTNOTE_ID = /^(?:fn|footnote|note)[-_:]?(\d\w*)$/i
+
+interface ConvertContext {
+	/** Labels of footnotes referenced so far. */
+	footnoteRefs: Set<string>
+	/** Footnote definitions, appended at the end of the document. */
+	footnotes: { label: string, text: string }[]
+	/** Preformatted blocks, kept aside so whitespace cleanup leaves them alone. */
+	preformatted: string[]
+}
+
+/**
+ * Converts HTML into Markdown.
+ *
+ * Handles headings, paragraphs, emphasis, links, images, nested lists,
+ * blockquotes, inline code and code blocks, data tables and footnotes.
+ * Hidden elements such as email preheaders are dropped, and tables which
+ * only lay out a newsletter are flattened into paragraphs.
+ *
+ * @param html - HTML of the article, or a fragment of it.
+ * @param highlights - Passages to mark with `==`, found in the text of the
+ * HTML, so that escaped characters and link targets are left alone.
+ * @returns The Markdown.
+ */
+export function htmlToMarkdown(html: string, highlights: string[] = []): string {
+	if (!html) return ''
+	const doc = new DOMParser().parseFromString(html, 'text/html')
+	for (const highlight of highlights) {
+		for (const paragraph of highlight.split('\n').map(p => p.replace(/\s+/g, ' ').trim()).filter(p => p.length > 0)) {
+			markPassage(doc, paragraph)
+		}
+	}
+	const context: ConvertContext = {
+		footnoteRefs: new Set(),
+		footnotes: [],
+		preformatted: [],
+	}
+
+	let markdown = normalizeWhitespace(convertChildren(doc.body, context))
+	if (context.footnotes.length > 0) {
+		const definitions = context.footnotes
+			.map(f => `[^${f.label}]: ${normalizeWhitespace(f.text).replace(/\n+/g, ' ')}`)
+			.join('\n')
+		markdown = `${markdown}\n\n${definitions}`
+	}
+	return markdown
+		.replace(new RegExp(INDENT, 'g'), ' ')
+		.replace(new RegExp(`${PRE_MARK}(\\d+)${PRE_MARK}`, 'g'), (_, i: string) => context.preformatted[Number(i)])
+}
+
+/**
+ * Wraps the first occurrence of a passage in `<mark>` elements, one for each
+ * text node it spans, comparing text with whitespace collapsed.
+ */
+function markPassage(doc: Document, passage: string) {
+	// Collapsed text of the document, with the text node and offset of each character
+	let text = ''
+	const positions: { node: Text, offset: number }[] = []
+	const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT)
+	for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+		const data = node.data
+		for (let offset = 0; offset < data.length; offset++) {
+			const whitespace = /\s/.test(data[offset])
+			if (whitespace && text.endsWith(' ')) continue
+			text += whitespace ? ' ' : data[offset]
+			positions.push({ node, offset })
+		}
+	}
+
+	const start = text.indexOf(passage)
+	if (start === -1) return
+	// Offsets to mark in each text node, in document order
+	const ranges = new Map<Text, { start: number, end: number }>()
+	for (const { node, offset } of positions.slice(start, start + passage.length)) {
+		const range = ranges.get(node)
+		if (range) {
+			range.end = offset + 1
+		} else {
+			ranges.set(node, { start: offset, end: offset + 1 })
+		}
+	}
+	ranges.forEach((range, node) => {
+		if (range.end < node.length) node.splitText(range.end)
+		const marked = range.start > 0 ? node.splitText(range.start) : node
+		const mark = doc.createElement('mark')
+		marked.parentNode?.insertBefore(mark, marked)
+		mark.appendChild(marked)
+	})
+}
+
+function convertChildren(node: Node, context: ConvertContext): string {
+	let out = ''
+	node.childNodes.forEach(child => {
+		out += convertNode(child, context)
+	})
+	return out
+}
+
+function convertNode(node: Node, context: ConvertContext): string {
+	if (node.nodeType === TEXT_NODE) {
+		return escapeText((node.textContent ?? '').replace(/\s+/g, ' '))
+	}
+	if (node.nodeType !== ELEMENT_NODE) {
+		return ''
+	}
+
+	const el = node as HTMLElement
+	const tag = el.tagName.toLowerCase()
+	if (SKIPPED_TAGS.has(tag) || isHidden(el)) {
+		return ''
+	}
+
+	const footnote = getFootnoteDefinition(el, context)
+	if (footnote) {
+		context.footnotes.push(footnote)
+		return ''
+	}
+
+	switch (tag) {
+		case 'h1':
+		case 'h2':
+		case 'h3':
+		case 'h4':
+		case 'h5':
+		case 'h6': {
+			const text = inline(convertChildren(el, context))
+			return text ? block(`${'#'.repeat(Number(tag[1]))} ${text}`) : ''
+		}
+		case 'br':
+			return '\n'
+		case 'hr':
+			return block('---')
+		case 'strong':
+		case 'b':
+			return wrapInline(convertChildren(el, context), '**')
+		case 'em':
+		case 'i':
+		case 'cite':
+			return wrapInline(convertChildren(el, context), '*')
+		case 'del':
+		case 's':
+		case 'strike':
+			return wrapInline(convertChildren(el, context), '~~')
+		case 'mark':
+			return wrapInline(convertChildren(el, context), '==')
+		case 'code':
+		case 'kbd':
+		case 'samp':
+			return inlineCode(el.textContent ?? '')
+		case 'pre':
+			return convertPre(el, context)
+		case 'a':
+			return convertLink(el, context)
+		case 'img':
+			return convertImage(el)
+		case 'ul':
+		case 'ol':
+			return convertList(el, context)
+		case 'li':
+			// Only reached for list items outside of a list
+			return block(convertChildren(el, context))
+		case 'blockquote':
+			return convertBlockquote(el, context)
+		case 'table':
+			return convertTable(el as HTMLTableElement, context)
+		case 'figcaption': {
+			const text = inline(convertChildren(el, context))
+			return text ? block(`*${text}*`) : ''
+		}
+		case 'dt': {
+			const text = inline(convertChildren(el, context))
+			return text ? block(`**${text}**`) : ''
+		}
+		default:
+			if (BLOCK_TAGS.has(tag)) {
+				return block(convertChildren(el, context))
+			}
+			return convertChildren(el, context)
+	}
+}
+
+function isHidden(el: HTMLElement): boolean {
+	if (el.hasAttribute('hidden') || el.getAttribute('aria-hidden') === 'true') {
+		return true
+	}
+	const style = (el.getAttribute('style') ?? '').toLowerCase()
+	return /display\s*:\s*none|visibility\s*:\s*hidden|mso-hide\s*:\s*all/.test(style)
+}
+
+/**
+ * Recognizes a footnote definition which was referenced earlier, either an
+ * element with a footnote `id` or a paragraph starting with `[1]`.
+ */
+function getFootnoteDefinition(el: HTMLElement, context: ConvertContext): { label: string, text: string } | undefined {
+	if (context.footnoteRefs.size === 0) return undefined
+
+	const idLabel = FOOTNOTE_ID.exec(el.id)?.[1]
+	if (idLabel && context.footnoteRefs.has(idLabel)) {
+		return { label: idLabel, text: convertChildren(el, context) }
+	}
+
+	const tag = el.tagName.toLowerCase()
+	if (tag === 'p' || tag === 'li') {
+		const textLabel = /^\s*\[(\w+)\]/.exec(el.textContent ?? '')?.[1]
+		if (textLabel && context.footnoteRefs.has(textLabel)) {
+			const text = convertChildren(el, context).replace(/^\s*\\\[[\w\\]+\\\]\s*/, '')
+			return { label: textLabel, text }
+		}
+	}
+	return undefined
+}
+
+function convertLink(el: HTMLElement, context: ConvertContext): string {
+	const href = (el.getAttribute('href') ?? '').trim()
+	const text = convertChildren(el, context)
+
+	if (href.startsWith('#')) {
+		const label = getFootnoteRefLabel(href, el.textContent ?? '')
+		if (label) {
+			context.footnoteRefs.add(label)
+			return `[^${label}]`
+		}
+		// Links back from a footnote to its reference
+		if (/ref/i.test(href) || /^\s*[↩↑^]\s*$/.test(el.textContent ?? '')) {
+			return ''
+		}
+		return text
+	}
+	if (!href || /^(javascript|data):/i.test(href)) {
+		return text
+	}
+	// Links around layout blocks, such as a linked newsletter banner, lose the link
+	if (text.includes('\n\n')) {
+		return text
+	}
+
+	const label = inline(text)
+	const url = href.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29')
+	if (!label) {
+		return ''
+	}
+	if ((el.textContent ?? '').trim() === href) {
+		return `<${url}>`
+	}
+	return `[${label}](${url})`
+}
+
+function getFootnoteRefLabel(href: string, text: string): string | undefined {
+	const idLabel = FOOTNOTE_ID.exec(href.substring(1))?.[1]
+	if (idLabel) return idLabel
+	// e.g. <a href="#note-a"><sup>[1]</sup></a>
+	return /^\s*\[?(\d+)\]?\s*$/.exec(text)?.[1]
+}
+
+function convertImage(el: HTMLElement): string {
+	const src = (el.getAttribute('src') ?? '').trim()
+	if (!src || src.startsWith('data:')) return ''
+	// Tracking pixels
+	if (el.getAttribute('width') === '1' || el.getAttribute('height') === '1') return ''
+	const alt = (el.getAttribute('alt') ?? '').replace(/\s+/g, ' ').replace(/[[\]]/g, '').trim()
+	return `![${alt}](${src.replace(/ /g, '%20')})`
+}
+
+function convertPre(el: HTMLElement, context: ConvertContext): string {
+	const code = (el.textContent ?? '').replace(/\n$/, '')
+	const languageClass = [el, el.querySelector('code')]
+		.map(e => e?.className ?? '')
+		.join(' ')
+	const language = /(?:language|lang)-(\w+)/.exec(languageClass)?.[1] ?? ''
+	const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map(run => run.length))
+	const fence = '`'.repeat(longestRun + 1)
+	context.preformatted.push(`${fence}${language}\n${code}\n${fence}`)
+	return block(`${PRE_MARK}${context.preformatted.length - 1}${PRE_MARK}`)
+}
+
+function convertList(el: HTMLElement, context: ConvertContext): string {
+	const ordered = el.tagName.toLowerCase() === 'ol'
+	let index = Number(el.getAttribute('start') ?? '1')
+	if (isNaN(index)) index = 1
+
+	const items: string[] = []
+	el.childNodes.forEach(child => {
+		if (child.nodeType !== ELEMENT_NODE || (child as HTMLElement).tagName.toLowerCase() !== 'li') {
+			// Nested lists placed directly inside the list belong to the previous item
+			const nested = convertNode(child, context).trim()
+			if (nested && items.length > 0) {
+				items[items.length - 1] += `\n${indent(nested, INDENT.repeat(4))}`
+			}
+			return
+		}
+		const item = child as HTMLElement
+		if (isHidden(item)) return
+		const footnote = getFootnoteDefinition(item, context)
+		if (footnote) {
+			context.footnotes.push(footnote)
+			return
+		}
+		const content = normalizeWhitespace(convertChildren(item, context))
+			// Keep nested lists tight against their parent item
+			.replace(/\n\n(?=(?:-|\d+\.) )/g, '\n')
+		if (!content) return
+		const marker = ordered ? `${index++}.` : '-'
+		const padding = INDENT.repeat(marker.length + 1)
+		const [first, ...rest] = content.split('\n')
+		items.push([`${marker} ${first}`, ...rest.map(line => line ? `${padding}${line}` : '')].join('\n'))
+	})
+	return items.length > 0 ? block(items.join('\n')) : ''
+}
+
+function convertBlockquote(el: HTMLElement, context: ConvertContext): string {
+	const content = normalizeWhitespace(convertChildren(el, context))
+	if (!content) return ''
+	return block(content.split('\n').map(line => line ? `> ${line}` : '>').join('\n'))
+}
+
+function convertTable(table: HTMLTableElement, context: ConvertContext): string {
+	if (!isDataTable(table)) {
+		// Layout tables are flattened so that every cell becomes a paragraph
+		return block(convertChildren(table, context))
+	}
+	const rows = Array.from(table.rows).map(row => Array.from(row.cells).map(cell => {
+		return inline(convertChildren(cell, context)).replace(/\|/g, '\\|')
+	}))
+	const columns = Math.max(...rows.map(r => r.length))
+	const line = (cells: string[]) => `| ${[...cells, ...new Array(columns - cells.length).fill('')].join(' | ')} |`
+	const [header, ...body] = rows
+	const caption = table.caption ? inline(convertChildren(table.caption, context)) : ''
+	return block([
+		...(caption ? [`**${caption}**`, ''] : []),
+		line(header),
+		line(new Array(columns).fill('---')),
+		...body.map(line),
+	].join('\n'))
+}
+
+/**
+ * Decides whether a table holds data, rather than laying out an email.
+ */
+function isDataTable(table: HTMLTableElement): boolean {
+	const rows = Array.from(table.rows)
+	if (rows.length === 0) return false
+	const cells = rows.flatMap(row => Array.from(row.cells))
+	if (cells.some(cell => cell.querySelector(LAYOUT_CELL_TAGS) !== null)) return false
+	if (table.querySelector('th') !== null) return true
+	const width = rows[0].cells.length
+	return rows.length >= 2 && width >= 2 && rows.every(row => row.cells.length === width)
+}
+
+function block(content: string): string {
+	const trimmed = content.trim()
+	return trimmed ? `\n\n${trimmed}\n\n` : ''
+}
+
+/**
+ * Joins a fragment into a single line, for headings, link labels and table cells.
+ */
+function inline(content: string): string {
+	return content.replace(/\s*\n\s*/g, ' ').replace(/ +/g, ' ').trim()
+}
+
+function wrapInline(content: string, mark: string): string {
+	const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content)
+	if (!match || !match[2] || match[2].includes('\n\n')) {
+		return content
+	}
+	return `${match[1]}${mark}${match[2]}${mark}${match[3]}`
+}
+
+function inlineCode(code: string): string {
+	const text = code.replace(/\s+/g, ' ')
+	if (!text.trim()) return text
+	const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length))
+	const fence = '`'.repeat(longestRun + 1)
+	const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : ''
+	return `${fence}${padding}${text}${padding}${fence}`
+}
+
+function indent(content: string, prefix: string): string {
+	return content.split('\n').map(line => line ? `${prefix}${line}` : '').join('\n')
+}
+
+/**
+ * Escapes characters which Markdown would read as formatting, and the start
+ * of a heading, blockquote or list, since any text node can start a line.
+ */
+function escapeText(text: string): string {
+	return text
+		.replace(/([\\`*_[\]])/g, '\\$1')
+		.replace(/</g, '&lt;')
+		.replace(/^(\s*)(#|>|[-+](?=\s))/, '$1\\$2')
+		.replace(/^(\s*\d+)([.)])(?=\s|$)/, '$1\\$2')
+}
+
+/**
+ * Trims lines and collapses spaces and blank lines.
+ */
+function normalizeWhitespace(markdown: string): string {
+	return markdown
+		.split('\n')
+		.map(line => line.trim().replace(/ {2,}/g, ' '))
+		.join('\n')
+		.replace(/\n{3,}/g, '\n\n')
+		.trim()
+}
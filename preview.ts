@@ -0,0 +1,282 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export interface PreviewItem<T> {
+	value: T
+	label: string
+	detail?: string
+	/** Ticked when the preview opens */
+	selected: boolean
+	/** Why the item cannot be ticked, e.g. an article without content */
+	disabledReason?: string
+}
+
+export interface PreviewGroup<T> {
+	title: string
+	items: PreviewItem<T>[]
+}
+
+export interface PreviewOptions<T> {
+	title: string
+	groups: PreviewGroup<T>[]
+	/** Describes the selection, e.g. its count and estimated size */
+	summary: (selected: T[]) => string
+	/** What happens to unticked items, if the user needs to know it before confirming */
+	note?: string
+	confirmText: string
+}
+
+/**
+ * Previews and overwrite confirmations run inside jobs, which hold the job
+ * lock until they are answered, so an unanswered one is cancelled after this long.
+ */
+const PREVIEW_TIMEOUT = 15 * 60 * 1000
+
+/**
+ * Lists what a command is about to do, so that the user can untick items
+ * before anything is written.
+ */
+class PreviewModal<T> extends Modal {
+	private confirmed = false
+	private timer?: number
+
+	constructor(app: App, private options: PreviewOptions<T>, private resolve: (selected: T[] | undefined) => void) {
+		super(app)
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		this.setTitle(this.options.title)
+		this.modalEl.addClass('feedly-preview')
+
+		const summary = contentEl.createEl('p')
+		if (this.options.note) {
+			contentEl.createEl('p', { text: this.options.note })
+		}
+		const list = contentEl.createDiv({ cls: 'feedly-preview-list' })
+		const selected = new Set<PreviewItem<T>>()
+		const updateSummary = () => {
+			summary.setText(this.options.summary(this.selectedValues(selected)))
+		}
+
+		for (const group of this.options.groups) {
+			const groupEl = list.createEl('details', { cls: 'feedly-preview-group' })
+			groupEl.open = this.options.groups.length <= 10
+			groupEl.createEl('summary', { text: `${group.title} (${group.items.length})` })
+			for (const item of group.items) {
+				const label = groupEl.createEl('label', { cls: 'feedly-preview-item' })
+				const checkbox = label.createEl('input', { type: 'checkbox' })
+				checkbox.checked = item.selected && !item.disabledReason
+				checkbox.disabled = item.disabledReason !== undefined
+				if (checkbox.checked) {
+					selected.add(item)
+				}
+				checkbox.addEventListener('change', () => {
+					if (checkbox.checked) {
+						selected.add(item)
+					} else {
+						selected.delete(item)
+					}
+					updateSummary()
+				})
+				label.createSpan({ text: item.label })
+				const detail = item.disabledReason ?? item.detail
+				if (detail) {
+					label.createSpan({ text: detail, cls: 'feedly-preview-detail' })
+				}
+			}
+		}
+		updateSummary()
+
+		new Setting(contentEl)
+			.setDesc(`Cancelled after ${PREVIEW_TIMEOUT / 60 / 1000} minutes without an answer, so that other jobs can run`)
+			.addButton((component) => {
+				component.setButtonText('Cancel')
+				component.onClick(() => this.close())
+			})
+			.addButton((component) => {
+				component.setButtonText(this.options.confirmText)
+				component.setCta()
+				component.onClick(() => {
+					this.confirmed = true
+					this.resolve(this.selectedValues(selected))
+					this.close()
+				})
+			})
+		this.timer = window.setTimeout(() => this.close(), PREVIEW_TIMEOUT)
+	}
+
+	onClose() {
+		window.clearTimeout(this.timer)
+		this.contentEl.empty()
+		if (!this.confirmed) {
+			this.resolve(undefined)
+		}
+	}
+
+	/** Selected values, in the order of the preview */
+	private selectedValues(selected: Set<PreviewItem<T>>) {
+		return this.options.groups.flatMap(group => group.items.filter(item => selected.has(item)).map(item => item.value))
+	}
+}
+
+/**
+ * Opens a preview of the items a command is about to process.
+ *
+ * @returns The ticked values, or undefined if the user cancelled.
+ */
+export function openPreview<T>(app: App, options: PreviewOptions<T>): Promise<T[] | undefined> {
+	return new Promise(resolve => new PreviewModal(app, options, resolve).open())
+}
+
+type DiffLine = { type: 'same' | 'add' | 'remove', text: string }
+
+/** Past this many line pairs, changed lines are shown as a whole rather than matched. */
+const MAX_DIFF_CELLS = 4_000_000
+
+/** Unchanged lines shown around each change. */
+const DIFF_CONTEXT = 2
+
+/**
+ * Compares two texts line by line, matching their longest common subsequence.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = before.split('\n')
+	const b = after.split('\n')
+	let start = 0
+	while (start < a.length && start < b.length && a[start] === b[start]) start++
+	let endA = a.length
+	let endB = b.length
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--
+		endB--
+	}
+
+	const head: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }))
+	const tail: DiffLine[] = a.slice(endA).map(text => ({ type: 'same', text }))
+	const midA = a.slice(start, endA)
+	const midB = b.slice(start, endB)
+	if (midA.length * midB.length > MAX_DIFF_CELLS) {
+		return [
+			...head,
+			...midA.map((text): DiffLine => ({ type: 'remove', text })),
+			...midB.map((text): DiffLine => ({ type: 'add', text })),
+			...tail,
+		]
+	}
+
+	// lengths[i][j] is the longest common subsequence of midA[i..] and midB[j..]
+	const lengths = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1))
+	for (let i = midA.length - 1; i >= 0; i--) {
+		for (let j = midB.length - 1; j >= 0; j--) {
+			lengths[i][j] = midA[i] === midB[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+		}
+	}
+	const middle: DiffLine[] = []
+	let i = 0
+	let j = 0
+	while (i < midA.length || j < midB.length) {
+		if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+			middle.push({ type: 'same', text: midA[i] })
+			i++
+			j++
+		} else if (j < midB.length && (i === midA.length || lengths[i][j + 1] >= lengths[i + 1][j])) {
+			middle.push({ type: 'add', text: midB[j] })
+			j++
+		} else {
+			middle.push({ type: 'remove', text: midA[i] })
+			i++
+		}
+	}
+	return [...head, ...middle, ...tail]
+}
+
+/**
+ * Shows the changes to a file before it is overwritten.
+ */
+class DiffModal extends Modal {
+	private confirmed = false
+	private timer?: number
+
+	constructor(app: App, private path: string, private before: string, private after: string, private resolve: (confirmed: boolean) => void) {
+		super(app)
+	}
+
+	onOpen() {
+		const { contentEl } = this
+		this.setTitle(`Overwrite ${this.path}?`)
+		this.modalEl.addClass('feedly-preview')
+
+		const lines = diffLines(this.before, this.after)
+		const added = lines.filter(line => line.type === 'add').length
+		const removed = lines.filter(line => line.type === 'remove').length
+		contentEl.createEl('p', { text: `${added} lines added, ${removed} lines removed` })
+
+		const pre = contentEl.createEl('pre', { cls: 'feedly-diff' })
+		const changed = lines.map(line => line.type !== 'same')
+		const near = (index: number) => {
+			for (let k = Math.max(0, index - DIFF_CONTEXT); k <= Math.min(lines.length - 1, index + DIFF_CONTEXT); k++) {
+				if (changed[k]) return true
+			}
+			return false
+		}
+		let hidden = 0
+		lines.forEach((line, index) => {
+			if (!near(index)) {
+				hidden++
+				return
+			}
+			if (hidden > 0) {
+				pre.createDiv({ text: `… ${hidden} unchanged lines`, cls: 'feedly-diff-skip' })
+				hidden = 0
+			}
+			const prefix = line.type === 'add' ? '+ ' : line.type === 'remove' ? '- ' : '  '
+			pre.createDiv({ text: `${prefix}${line.text}`, cls: `feedly-diff-${line.type}` })
+		})
+		if (hidden > 0) {
+			pre.createDiv({ text: `… ${hidden} unchanged lines`, cls: 'feedly-diff-skip' })
+		}
+
+		new Setting(contentEl)
+			.setDesc(`The current file is kept after ${PREVIEW_TIMEOUT / 60 / 1000} minutes without an answer, so that other jobs can run`)
+			.addButton((component) => {
+				component.setButtonText('Keep the current file')
+				component.onClick(() => this.close())
+			})
+			.addButton((component) => {
+				component.setButtonText('Overwrite')
+				component.setWarning()
+				component.onClick(() => {
+					this.confirmed = true
+					this.resolve(true)
+					this.close()
+				})
+			})
+		this.timer = window.setTimeout(() => this.close(), PREVIEW_TIMEOUT)
+	}
+
+	onClose() {
+		window.clearTimeout(this.timer)
+		this.contentEl.empty()
+		if (!this.confirmed) {
+			this.resolve(false)
+		}
+	}
+}
+
+/**
+ * Shows a line diff of a file which is about to be overwritten.
+ *
+ * @returns Whether the user confirmed the new content.
+ */
+export function confirmOverwrite(app: App, path: string, before: string, after: string): Promise<boolean> {
+	return new Promise(resolve => new DiffModal(app, path, before, after, resolve).open())
+}
+
+/**
+ * Formats a size in bytes, e.g. `3.4 MB`.
+ */
+export function formatSize(bytes: number) {
+	if (bytes < 1024) return `${bytes} B`
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
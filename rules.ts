@@ -0,0 +1,184 @@
+import { App, normalizePath } from 'obsidian';
+
+export type RuleField = 'publisher' | 'author' | 'title' | 'category' | 'words' | 'age'
+
+/**
+ * `contains` ignores case, `matches` is a case-insensitive regular
+ * expression, and `below` and `above` compare word counts, or ages in days.
+ */
+export type RuleOperator = 'contains' | 'matches' | 'below' | 'above'
+
+/**
+ * Keeps or drops the ePub articles it matches. The first matching rule wins,
+ * so an include rule before an exclude rule makes an exception to it.
+ */
+export interface ContentRule {
+	action: 'include' | 'exclude'
+	field: RuleField
+	operator: RuleOperator
+	value: string
+	/** Turned off rules are kept in the settings but match nothing */
+	disabled?: boolean
+}
+
+/** What the rules know about an article, from Feedly or Instapaper. */
+export interface RuleArticle {
+	title: string
+	author?: string
+	publisher?: string
+	categories?: string[]
+	/** Unknown for Instapaper bookmarks which the rules dropped before their text was fetched */
+	words?: number
+	/** Publication date, or when an Instapaper bookmark was saved, in milliseconds */
+	date?: number
+}
+
+export const TEXT_FIELDS: RuleField[] = ['publisher', 'author', 'title', 'category']
+
+const DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Counts the words of an HTML fragment.
+ */
+export function countWords(html: string) {
+	const text = html.replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ').replace(/<[^>]+>/g, ' ').replace(/&[a-z#0-9]+;/gi, ' ')
+	return text.split(/\s+/).filter(word => /\w/.test(word)).length
+}
+
+/**
+ * Describes a rule, e.g. `Exclude title matching /sponsored/`.
+ */
+export function describeRule(rule: ContentRule) {
+	const action = rule.action === 'include' ? 'Include' : 'Exclude'
+	if (rule.field === 'words') {
+		return `${action} articles with ${rule.operator === 'below' ? 'fewer' : 'more'} than ${rule.value} words`
+	}
+	if (rule.field === 'age') {
+		return `${action} articles ${rule.operator === 'below' ? 'newer' : 'older'} than ${rule.value} days`
+	}
+	return rule.operator === 'matches'
+		? `${action} ${rule.field} matching /${rule.value}/`
+		: `${action} ${rule.field} containing "${rule.value}"`
+}
+
+/**
+ * Whether a rule matches an article. Rules with an empty value or an invalid
+ * regular expression match nothing.
+ */
+export function ruleMatches(rule: ContentRule, article: RuleArticle, now = Date.now()): boolean {
+	const value = rule.value.trim()
+	if (rule.disabled || !value) return false
+
+	if (rule.field === 'words' || rule.field === 'age') {
+		const limit = parseFloat(value)
+		if (isNaN(limit)) return false
+		let amount = article.words
+		if (rule.field === 'age') {
+			amount = article.date === undefined ? undefined : (now - article.date) / DAY
+		}
+		if (amount === undefined) return false
+		return rule.operator === 'below' ? amount < limit : amount > limit
+	}
+
+	const texts = rule.field === 'category'
+		? article.categories ?? []
+		: [article[rule.field] ?? '']
+	if (rule.operator === 'matches') {
+		let pattern: RegExp
+		try {
+			pattern = new RegExp(value, 'i')
+		} catch {
+			return false
+		}
+		return texts.some(text => pattern.test(text))
+	}
+	const needle = value.toLowerCase()
+	return texts.some(text => text.toLowerCase().includes(needle))
+}
+
+/**
+ * Finds the rule which decides whether an article is kept.
+ *
+ * @param keepUnmatched - Whether articles which match no rule are kept.
+ * @returns The matching exclude rule, `unmatched` if no rule matches and
+ * those are dropped, or undefined if the article is kept.
+ */
+export function droppedBy(rules: ContentRule[], article: RuleArticle, keepUnmatched: boolean, now = Date.now()): ContentRule | 'unmatched' | undefined {
+	const rule = rules.find(r => ruleMatches(r, article, now))
+	if (rule) return rule.action === 'exclude' ? rule : undefined
+	return keepUnmatched ? undefined : 'unmatched'
+}
+
+/**
+ * Finds the rule which decides whether an article is kept, before its text is
+ * fetched to count the words.
+ *
+ * @returns Like {@link droppedBy}, or `words` if an enabled word count rule
+ * comes before any matching rule, so that the text is needed to decide.
+ */
+export function droppedBeforeText(rules: ContentRule[], article: RuleArticle, keepUnmatched: boolean, now = Date.now()): ContentRule | 'unmatched' | 'words' | undefined {
+	const rule = rules.find(r => r.field === 'words' ? !r.disabled && !!r.value.trim() : ruleMatches(r, article, now))
+	if (rule?.field === 'words') return 'words'
+	if (rule) return rule.action === 'exclude' ? rule : undefined
+	return keepUnmatched ? undefined : 'unmatched'
+}
+
+/**
+ * Why an article is dropped, for the sync history and the ePub preview.
+ */
+export function dropReason(dropped: ContentRule | 'unmatched') {
+	return dropped === 'unmatched' ? 'Matches no include rule' : `Rule: ${describeRule(dropped)}`
+}
+
+/**
+ * Articles fetched for the latest ePub, before any rule applied, so that the
+ * settings can show what each rule drops without calling the APIs. Kept in a
+ * file of the plugin folder, like the sync history.
+ */
+export class RuleSample {
+	articles: RuleArticle[] = []
+	/** When the articles were fetched */
+	fetched?: number
+
+	constructor(private app: App, private path: string) {
+		this.path = normalizePath(path)
+	}
+
+	async load() {
+		try {
+			if (await this.app.vault.adapter.exists(this.path)) {
+				const data = JSON.parse(await this.app.vault.adapter.read(this.path))
+				this.articles = data.articles ?? []
+				this.fetched = data.fetched
+			}
+		} catch (e) {
+			console.error('Cannot read the articles of the latest ePub', e)
+		}
+	}
+
+	async save(articles: RuleArticle[]) {
+		this.articles = articles
+		this.fetched = Date.now()
+		try {
+			await this.app.vault.adapter.write(this.path, JSON.stringify({ fetched: this.fetched, articles }))
+		} catch (e) {
+			console.error('Cannot save the articles of the latest ePub', e)
+		}
+	}
+
+	/**
+	 * Counts the sample articles each rule drops, and those dropped for
+	 * matching no rule, applying the rules in order.
+	 */
+	countDrops(rules: ContentRule[], keepUnmatched: boolean) {
+		const counts = new Map<ContentRule | 'unmatched', number>()
+		const now = Date.now()
+		for (const article of this.articles) {
+			const dropped = droppedBy(rules, article, keepUnmatched, now)
+			if (dropped) {
+				counts.set(dropped, (counts.get(dropped) ?? 0) + 1)
+			}
+		}
+		return counts
+	}
+}
@@ -0,0 +1,84 @@
+/**
+ * Values available to a template, keyed by variable name.
+ * Missing or empty values render as an empty string.
+ */
+export type TemplateVariables = Record<string, string | undefined>
+
+/**
+ * Renders a template using `{{variable}}` placeholders.
+ *
+ * Sections wrapped in `{{#variable}}…{{/variable}}` are only rendered when the
+ * variable has a value, and `{{^variable}}…{{/variable}}` only when it does not.
+ *
+ * A multi-line value keeps the prefix of the line it is inserted on, so
+ * `> {{highlight}}` quotes every line of the highlight, not only the first.
+ *
+ * @param template - Template text.
+ * @param variables - Values to substitute.
+ * @returns The rendered text.
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+	const hasValue = (name: string) => (variables[name] ?? '').trim().length > 0
+
+	const sectioned = template.replace(/\{\{([#^])\s*(\w+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g, (_, type: string, name: string, inner: string) => {
+		const show = type === '#' ? hasValue(name) : !hasValue(name)
+		return show ? inner : ''
+	})
+
+	return sectioned
+		.split('\n')
+		.map(line => {
+			const prefix = /^(?:>\s?|\s)*/.exec(line)?.[0] ?? ''
+			return line.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+				return (variables[name] ?? '').replace(/\n/g, `\n${prefix}`)
+			})
+		})
+		.join('\n')
+}
+
+/** Longest file or folder name, in characters, that is safe on every platform. */
+const MAX_SEGMENT_LENGTH = 100
+
+/** Names that Windows reserves for devices, with or without an extension. */
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)(\..*)?$/i
+
+/**
+ * Makes a single file or folder name safe on Windows, macOS, Linux, iOS and
+ * Android, and for Obsidian links.
+ */
+export function sanitizePathSegment(segment: string): string {
+	let out = segment
+		// eslint-disable-next-line no-control-regex
+		.replace(/[\x00-\x1f*"\\/<>:|?#^[\]]/g, '')
+		.replace(/\s+/g, ' ')
+		.trim()
+	if (out.length > MAX_SEGMENT_LENGTH) {
+		out = out.substring(0, MAX_SEGMENT_LENGTH).trim()
+	}
+	// Windows drops trailing dots and spaces, and a leading dot hides the file
+	out = out.replace(/[. ]+$/, '').replace(/^\.+/, '')
+	if (RESERVED_NAMES.test(out)) {
+		out = `_${out}`
+	}
+	return out
+}
+
+/**
+ * Renders a path template such as `{{publisher}}/{{year}}/{{title}}`.
+ * Values cannot add folders of their own, and empty folders are dropped.
+ *
+ * @param template - Path template, with `/` separating folders.
+ * @param variables - Values to substitute.
+ * @returns The sanitized relative path, without an extension.
+ */
+export function renderPathTemplate(template: string, variables: TemplateVariables): string {
+	const safeVariables: TemplateVariables = {}
+	for (const [name, value] of Object.entries(variables)) {
+		safeVariables[name] = value?.replace(/[/\\\n]/g, ' ')
+	}
+	return renderTemplate(template, safeVariables)
+		.split('/')
+		.map(sanitizePathSegment)
+		.filter(segment => segment.length > 0)
+		.join('/')
+}
@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { TFile } from 'obsidian';
+import MD5 from 'crypto-js/md5';
+import FeedlyPlugin, { reconcileAnnotationNote } from '../main';
+import { EntryIndex } from '../entry-index';
+import { FeedlyClient } from '../feedly';
+import { RecordingTransport } from '../transport';
+import { SyncRunLog } from '../history';
+import { TestVault } from './vault';
+
+const NOTE_A = 'Feedly Annotations/The Bond Market Is Bored.md'
+const NOTE_B = 'Feedly Annotations/A Slow Weekend at the Philadelphia Zoo.md'
+
+function blockId(identity: string) {
+	return `feedly-${MD5(identity).toString().substring(0, 12)}`
+}
+
+function newRun() {
+	return new SyncRunLog({ name: 'Sync annotations', started: 0, status: 'running', counts: {}, skipped: [], errors: [], rateLimitHits: 0, files: [] })
+}
+
+describe('processAnnotations', () => {
+	let vault: TestVault
+	let plugin: FeedlyPlugin
+
+	beforeEach(async () => {
+		vault = new TestVault()
+		plugin = new FeedlyPlugin(vault.app, { id: 'feedly', dir: '.obsidian/plugins/feedly' } as FeedlyPlugin['manifest'])
+		plugin.transport = new RecordingTransport(vault.app.vault.adapter, 'fixtures')
+		plugin.feedly = new FeedlyClient('token', plugin.transport.request)
+		plugin.entryIndex = new EntryIndex(vault.app)
+		await plugin.loadSettings()
+		plugin.transport.mode = 'replay'
+	})
+
+	async function sync(run = newRun()) {
+		const journal = await plugin.feedly.getAnnotationJournal()
+		await plugin.processAnnotations(journal.entries, new Map<string, TFile>(), run)
+		return journal
+	}
+
+	it('creates a note per entry with its frontmatter', async () => {
+		const run = newRun()
+		await sync(run)
+
+		expect(vault.app.vault.getMarkdownFiles().map(f => f.path).sort()).toEqual([NOTE_B, NOTE_A])
+		expect(run.run.counts).toEqual({ 'notes created': 2, 'annotations synced': 3 })
+		const frontmatter = vault.app.metadataCache.getFileCache(vault.app.vault.getFileByPath(NOTE_A)!)?.frontmatter
+		expect(frontmatter).toMatchObject({
+			url: 'https://www.bloomberg.com/opinion/articles/2024-05-14/the-bond-market-is-bored',
+			feedlyUrl: 'https://feedly.com/i/entry/Ym9uZC1tYXJrZXQ=_18f3c2a1b7e:2d41f:6a1c09e4',
+			author: 'Matt Levine',
+			publisher: 'Money Stuff',
+		})
+		// Tags are off until the user picks a mapping
+		expect(frontmatter?.tags).toBeUndefined()
+	})
+
+	it('writes highlights as quotes and comments as nested callouts', async () => {
+		await sync()
+
+		expect(vault.read(NOTE_A)).toContain(`
+
+> Everything is securities fraud. ^${blockId('annot-1')}
+
+> Bond investors are bored.
+>
+> Bored investors buy bonds.
+>
+> > [!note] Comment
+> > Worth re-reading. ^${blockId('annot-2')}`)
+		// The journal has no ID for this one, so the block ID comes from the entry and time
+		expect(vault.read(NOTE_B)).toContain(`
+
+> [!note] Comment
+> Send this to Sam. ^${blockId('emVvLXdlZWtlbmQ=_18f3d0e5a42:1b77c:2f80d315|1715793600000')}`)
+	})
+
+	it('does not duplicate annotations on the next sync', async () => {
+		await sync()
+		const first = vault.read(NOTE_A)
+		const run = newRun()
+		await sync(run)
+
+		expect(vault.read(NOTE_A)).toBe(first)
+		expect(vault.app.vault.getMarkdownFiles()).toHaveLength(2)
+		expect(run.run.counts['notes created']).toBeUndefined()
+	})
+
+	it('updates an edited annotation in place', async () => {
+		const journal = await sync()
+		const edited = { ...journal.entries[0], annotation: { highlight: { text: 'Everything is still securities fraud.' } } }
+		await plugin.processAnnotations([edited], new Map<string, TFile>())
+
+		const content = vault.read(NOTE_A)
+		expect(content).toContain(`> Everything is still securities fraud. ^${blockId('annot-1')}`)
+		expect(content).not.toContain('> Everything is securities fraud.')
+		expect(content.split(`^${blockId('annot-1')}`)).toHaveLength(2)
+	})
+
+	it('maps boards to tags and categories to properties', async () => {
+		plugin.settings.tagMapping = { boards: 'tags', categories: 'property', keywords: 'none' }
+		await sync()
+
+		const frontmatter = vault.app.metadataCache.getFileCache(vault.app.vault.getFileByPath(NOTE_A)!)?.frontmatter
+		// Feedly's own global.saved board and global.all category are left out
+		expect(frontmatter?.tags).toEqual(['feedly/long-reads'])
+		expect(frontmatter?.categories).toEqual(['Finance'])
+	})
+})
+
+describe('reconcileAnnotationNote', () => {
+	const rendered = new Map([['feedly-pushed', '> The bond market is bored.\n> - Yields are flat\n> - Volatility is low ^feedly-pushed']])
+
+	it('ignores whitespace and list markers which differ from Feedly', () => {
+		const note = '# The Bond Market Is Bored\n\n>  The bond market  is bored.\n>\n> * Yields are flat\n>   + Volatility is low   ^feedly-pushed\n'
+
+		expect(reconcileAnnotationNote(note, rendered, 'flag')).toEqual({ content: note, deleted: 0, edited: 0 })
+		expect(reconcileAnnotationNote(note, rendered, 'update')).toEqual({ content: note, deleted: 0, edited: 0 })
+	})
+
+	it('flags an annotation whose text was edited in Feedly', () => {
+		const note = '# The Bond Market Is Bored\n\n> The bond market is bored.\n> - Yields are rising\n> - Volatility is low ^feedly-pushed\n'
+
+		const { content, edited } = reconcileAnnotationNote(note, rendered, 'flag')
+		expect(edited).toBe(1)
+		expect(content).toContain('> - Volatility is low #feedly/edited ^feedly-pushed')
+	})
+})
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { cleanContent, findProfile } from '../cleaning';
+
+/** Newsletters saved in the root of the repository */
+function sample(name: string) {
+	return readFileSync(join(dirname(fileURLToPath(import.meta.url)), '..', `${name}.html`), 'utf8')
+}
+
+describe('cleanContent', () => {
+	it.each(['moneystuff', 'patreon', 'philly'])('cleans %s', async (name) => {
+		const cleaned = cleanContent(sample(name))
+
+		expect(cleaned).not.toContain('<img ')
+		expect(cleaned).not.toMatch(/View in browser/i)
+		await expect(cleaned).toMatchFileSnapshot(`golden/${name}.html`)
+	})
+
+	it('removes the preheader and layout tables of Money Stuff', () => {
+		const html = sample('moneystuff')
+		expect(html).toContain('Indexes, Universal, lost and found.')
+
+		const cleaned = cleanContent(html)
+		expect(cleaned).not.toContain('Indexes, Universal, lost and found.')
+		expect(cleaned).not.toMatch(/<table|<tbody|<tr|<td/i)
+	})
+
+	it('keeps images when asked to', () => {
+		expect(cleanContent(sample('philly'), true)).toContain('<img ')
+	})
+
+	it('removes the footer with a cleaning profile', () => {
+		const profiles = [{ name: 'Money Stuff', match: 'money stuff', removeSelectors: [], stopBefore: 'Like getting this newsletter?' }]
+		const profile = findProfile(profiles, 'Bloomberg: Money Stuff')
+		expect(profile).toBe(profiles[0])
+
+		const html = sample('moneystuff')
+		expect(cleanContent(html)).toContain('Unsubscribe')
+		const cleaned = cleanContent(html, false, profile)
+		expect(cleaned).not.toContain('Like getting this newsletter?')
+		expect(cleaned).not.toContain('Unsubscribe')
+		expect(cleaned.length).toBeLessThan(cleanContent(html).length)
+	})
+})
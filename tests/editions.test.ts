@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { TFile, TFolder } from 'obsidian';
+import { isIssueFile, issuePath, newEdition, nextIssue } from '../editions';
+
+/** A file of the vault, with its folder. */
+function file(path: string) {
+	const result = new TFile()
+	result.path = path
+	result.name = path.split('/').pop()!
+	result.extension = result.name.split('.').pop()!
+	result.basename = result.name.substring(0, result.name.length - result.extension.length - 1)
+	result.parent = new TFolder()
+	result.parent.path = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '/'
+	return result
+}
+
+describe('isIssueFile', () => {
+	const tech = { ...newEdition('Tech'), folder: 'ePubs' }
+
+	it('matches the issues of the edition', () => {
+		expect(isIssueFile(tech, file(`${issuePath(tech, 3, '2024-05-15')}.epub`))).toBe(true)
+		expect(isIssueFile(tech, file('ePubs/Tech 2024-05-15 No 3 checklist.md'))).toBe(false)
+		expect(isIssueFile(tech, file('Tech 2024-05-15 No 3.epub'))).toBe(false)
+	})
+
+	it('leaves out editions whose name starts with the same words', () => {
+		const weekly = { ...newEdition('Tech Weekly'), folder: 'ePubs' }
+		const weeklyIssue = file(`${issuePath(weekly, 7, '2024-05-15')}.epub`)
+
+		expect(isIssueFile(tech, weeklyIssue)).toBe(false)
+		expect(isIssueFile(tech, file('ePubs/Tech Weekly No 3.epub'))).toBe(false)
+		expect(nextIssue(tech, [weeklyIssue, file('ePubs/Tech 2024-05-14 No 2.epub')])).toBe(3)
+	})
+
+	it('matches edition names with regular expression characters', () => {
+		const plus = { ...newEdition('C++ (daily)'), folder: '' }
+
+		expect(isIssueFile(plus, file(`${issuePath(plus, 1, '2024-05-15')}.epub`))).toBe(true)
+		expect(isIssueFile(plus, file('C (daily) 2024-05-15 No 1.epub'))).toBe(false)
+	})
+})
@@ -0,0 +1,194 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import JSZip from 'jszip';
+import nodepub, { NodepubFile } from 'nodepub';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { generateEpub } from '../main';
+import { applyNestedToc } from '../epub-toc';
+import { EpubImage } from '../epub-images';
+import { SyncRunLog } from '../history';
+import { TestVault } from './vault';
+
+/** Files which nodepub 3.4.0 generated, with the input it was given */
+interface NodepubRecording {
+	input: {
+		metadata: { id: string, title: string, author: string, publisher: string, description: string, cover: string }
+		css: string
+		sections: { title: string, content: string, excludeFromToc: boolean, isFrontMatter: boolean }[]
+	}
+	files: { name: string, folder: string, content?: string }[]
+}
+
+const recording: NodepubRecording = JSON.parse(readFileSync(join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'nodepub-3.4.0.json'), 'utf8'))
+
+/** Removes the generation date, which is the only part that changes between runs. */
+function withoutDate(content?: string) {
+	return content?.replace(/(opf:event='modification'>)\d{4}-\d{2}-\d{2}/, '$1')
+}
+
+function newRun() {
+	return new SyncRunLog({ name: 'Generate ePub', started: 0, status: 'running', counts: {}, skipped: [], errors: [], rateLimitHits: 0, files: [] })
+}
+
+function image(name: string, mediaType = 'image/jpeg'): EpubImage {
+	return { name, data: new TextEncoder().encode(`bytes of ${name}`).buffer, mediaType }
+}
+
+async function generate(vault: TestVault, groupTitles: [string, string], run?: SyncRunLog) {
+	const path = await generateEpub({
+		id: 'feedly-morning-3',
+		title: 'Morning <Edition> & News',
+		publisher: 'Feedly',
+		author: 'Feedly',
+		cover: image('cover.png', 'image/png'),
+		images: [image('chart.jpg')],
+		content: [
+			{ title: groupTitles[0], chapters: [{ title: 'The Bond Market Is Bored', data: '<p>Bonds.</p><img src="../images/chart.jpg" />' }] },
+			{ title: groupTitles[1], chapters: [
+				{ title: 'Zoo <Weekend>', data: '<p>Pandas.</p>' },
+				{ title: 'Council Votes', data: '<p>Budget.</p>' },
+			] },
+		],
+		filePath: 'ePubs/Morning 3',
+		vault: vault.app.vault,
+		run,
+	})
+	return { path, zip: await JSZip.loadAsync(vault.binary(path)) }
+}
+
+describe('nodepub mock', () => {
+	it('generates the files nodepub generated for the same input', async () => {
+		const book = nodepub.document(recording.input.metadata)
+		book.addCSS(recording.input.css)
+		for (const section of recording.input.sections) {
+			book.addSection(section.title, section.content, section.excludeFromToc, section.isFrontMatter)
+		}
+		const files = await book.getFilesForEPUB()
+
+		expect(files.map(f => `${f.folder}/${f.name}`)).toEqual(recording.files.map(f => `${f.folder}/${f.name}`))
+		for (const [index, file] of recording.files.entries()) {
+			if (file.content === undefined) continue
+			expect(withoutDate(files[index].content as string), file.name).toBe(withoutDate(file.content))
+		}
+	})
+})
+
+describe('applyNestedToc', () => {
+	it('changes nothing when the NCX is missing', async () => {
+		const book = nodepub.document(recording.input.metadata)
+		book.addSection('Chapter', '<p>Text</p>')
+		const files = (await book.getFilesForEPUB()).filter(file => !file.name.endsWith('.ncx'))
+		const before = JSON.stringify(files)
+
+		expect(() => applyNestedToc(files, [{ title: 'Chapter', section: 0 }], 1)).toThrow('Expected an NCX file with a navMap')
+		expect(JSON.stringify(files)).toBe(before)
+	})
+
+	it('changes nothing when sections are missing', async () => {
+		const book = nodepub.document(recording.input.metadata)
+		book.addSection('Chapter', '<p>Text</p>')
+		const files = await book.getFilesForEPUB()
+
+		expect(() => applyNestedToc(files, [{ title: 'Chapter', section: 1 }], 2)).toThrow('Expected ePub sections s1.xhtml to s2.xhtml, found s1.xhtml')
+		expect(files.some(file => file.name === 'nested-nav.xhtml')).toBe(false)
+	})
+})
+
+describe('generateEpub', () => {
+	afterEach(() => {
+		vi.restoreAllMocks()
+	})
+
+	it('stores the mimetype first and uncompressed', async () => {
+		const vault = new TestVault()
+		const { path } = await generate(vault, ['Money Stuff', 'The Philadelphia Inquirer'])
+		expect(path).toBe('ePubs/Morning 3.epub')
+
+		// E-readers expect the local header of the mimetype at the start of the file
+		const bytes = new Uint8Array(vault.binary(path))
+		const view = new DataView(bytes.buffer)
+		expect(view.getUint32(0, true)).toBe(0x04034b50)
+		expect(view.getUint16(8, true)).toBe(0)
+		const nameLength = view.getUint16(26, true)
+		expect(new TextDecoder().decode(bytes.slice(30, 30 + nameLength))).toBe('mimetype')
+	})
+
+	it('escapes titles on the cover and group pages', async () => {
+		const { zip } = await generate(new TestVault(), ['Money & Markets', 'Local <News>'])
+
+		const cover = await zip.file('OEBPF/content/s1.xhtml')!.async('string')
+		expect(cover).toContain('alt="Morning &lt;Edition&gt; &amp; News"')
+		const money = await zip.file('OEBPF/content/s2.xhtml')!.async('string')
+		expect(money).toContain('<h1>Money &amp; Markets</h1>')
+		const local = await zip.file('OEBPF/content/s4.xhtml')!.async('string')
+		expect(local).toContain('<h1>Local &lt;News&gt;</h1>')
+		// Chapters are numbered across groups
+		expect(local).toContain('<li>2. Zoo &lt;Weekend&gt;</li><li>3. Council Votes</li>')
+	})
+
+	it('nests chapters under their group in the table of contents', async () => {
+		const { zip } = await generate(new TestVault(), ['Money Stuff', 'The Philadelphia Inquirer'])
+
+		const nav = await zip.file('OEBPF/nested-nav.xhtml')!.async('string')
+		expect(nav).toContain(`<li><a href="content/s4.xhtml">The Philadelphia Inquirer</a>
+<ol>
+<li><a href="content/s5.xhtml">2. Zoo &lt;Weekend&gt;</a></li>
+<li><a href="content/s6.xhtml">3. Council Votes</a></li>
+</ol></li>`)
+		const ncx = await zip.file('OEBPF/navigation.ncx')!.async('string')
+		expect(ncx).toContain('<text>1. The Bond Market Is Bored</text>')
+		const opf = await zip.file('OEBPF/ebook.opf')!.async('string')
+		expect(opf.match(/properties="nav"/g)).toHaveLength(1)
+		expect(opf).toContain('href="nested-nav.xhtml"')
+	})
+
+	it('lists the images and the cover in the package', async () => {
+		const { zip } = await generate(new TestVault(), ['Money Stuff', 'The Philadelphia Inquirer'])
+
+		const opf = await zip.file('OEBPF/ebook.opf')!.async('string')
+		expect(opf).toContain('<item id="embedded-image-1" href="images/chart.jpg" media-type="image/jpeg"/>')
+		expect(opf).toContain('<item id="cover-image" href="images/cover.png" media-type="image/png" properties="cover-image"/>')
+		expect(opf).toContain('<meta name="cover" content="cover-image"/>\n</metadata>')
+		expect(await zip.file('OEBPF/images/chart.jpg')!.async('string')).toBe('bytes of chart.jpg')
+		expect(await zip.file('OEBPF/images/cover.png')!.async('string')).toBe('bytes of cover.png')
+	})
+
+	it('writes valid XML when titles contain markup characters', async () => {
+		const { zip } = await generate(new TestVault(), ['Money & Markets', 'Local <News>'])
+
+		const parser = new DOMParser()
+		const xmlFiles = Object.keys(zip.files).filter(name => /\.(opf|ncx|xhtml)$/.test(name))
+		expect(xmlFiles).toContain('OEBPF/content/s5.xhtml')
+		for (const name of xmlFiles) {
+			const xml = parser.parseFromString(await zip.file(name)!.async('string'), 'application/xml')
+			expect(xml.getElementsByTagName('parsererror'), name).toHaveLength(0)
+		}
+		const opf = await zip.file('OEBPF/ebook.opf')!.async('string')
+		expect(opf).toContain('<dc:title>Morning &lt;Edition&gt; &amp; News</dc:title>')
+	})
+
+	it('keeps the CSS of the images and of the cover', async () => {
+		const { zip } = await generate(new TestVault(), ['Money Stuff', 'The Philadelphia Inquirer'])
+
+		const css = await zip.file('OEBPF/css/ebook.css')!.async('string')
+		expect(css).toContain('img { max-width: 100%; height: auto; }')
+		expect(css).toContain('.cover { text-align: center; }')
+	})
+
+	it('keeps the flat table of contents and logs to the run when nodepub files are missing', async () => {
+		const document = nodepub.document
+		vi.spyOn(nodepub, 'document').mockImplementation(options => {
+			const book = document(options)
+			return {
+				...book,
+				getFilesForEPUB: async () => (await book.getFilesForEPUB()).filter((file: NodepubFile) => !file.name.endsWith('.ncx')),
+			}
+		})
+		const run = newRun()
+		const { zip } = await generate(new TestVault(), ['Money Stuff', 'The Philadelphia Inquirer'], run)
+
+		expect(run.run.errors).toEqual(['Kept the flat table of contents, the ePub files were not as expected: Expected an NCX file with a navMap'])
+		expect(zip.file('OEBPF/nested-nav.xhtml')).toBeNull()
+	})
+})
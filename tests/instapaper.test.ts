@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { RequestUrlParam } from 'obsidian';
+import { getInstapaperArticles } from '../main';
+import { InstapaperClient } from '../instapaper';
+import { RecordingTransport } from '../transport';
+import { SyncRunLog } from '../history';
+import { ContentRule, droppedBeforeText, dropReason, RuleArticle } from '../rules';
+import { testsAdapter } from './vault';
+
+/** Bookmarks of the first page of the fixtures */
+const PAGE_1 = Array.from({ length: 500 }, (_, i) => String(1001 + i))
+
+function newRun() {
+	return new SyncRunLog({ name: 'Generate ePub', started: 0, status: 'running', counts: {}, skipped: [], errors: [], rateLimitHits: 0, files: [] })
+}
+
+/**
+ * Replays the recorded Instapaper responses, keeping the requests to list
+ * bookmarks.
+ */
+function replayClient() {
+	const transport = new RecordingTransport(testsAdapter(), 'fixtures')
+	transport.mode = 'replay'
+	const listRequests: URLSearchParams[] = []
+	const textRequests: string[] = []
+	const client = new InstapaperClient('key', 'secret', 'token', 'token-secret', async (params: RequestUrlParam) => {
+		if (params.url.endsWith('/bookmarks/list')) {
+			listRequests.push(new URLSearchParams(params.body as string))
+		}
+		if (params.url.endsWith('/bookmarks/get_text')) {
+			textRequests.push(new URLSearchParams(params.body as string).get('bookmark_id')!)
+		}
+		return await transport.request(params)
+	})
+	return { client, listRequests, textRequests }
+}
+
+/** Leaves out all but the last 3 bookmarks of the first page, as if issue 4 delivered them. */
+function deliveredInIssue4() {
+	return new Map(PAGE_1.slice(0, 497).map(id => [id, 4]))
+}
+
+describe('getInstapaperArticles', () => {
+	it('lists the next page with the IDs it already has', async () => {
+		const { client, listRequests } = replayClient()
+		const run = newRun()
+		const { chapters, unreadIds } = await getInstapaperArticles(client, 25, run, deliveredInIssue4())
+
+		expect(listRequests).toHaveLength(2)
+		expect(listRequests[0].get('limit')).toBe('500')
+		expect(listRequests[0].has('have')).toBe(false)
+		expect(listRequests[1].get('have')).toBe(PAGE_1.join(','))
+
+		expect(chapters.map(c => c.bookmarkId)).toEqual(['1498', '1499', '1500', '2001', '2002'])
+		// Every unread bookmark was listed, so the delivery log can forget the others
+		expect(unreadIds).toEqual([...PAGE_1, '2001', '2002', '2003'])
+		expect(run.run.counts.skipped).toBe(498)
+		expect(run.run.skipped.filter(s => s.reason === 'Delivered in issue 4')).toHaveLength(497)
+		expect(run.run.skipped).toContainEqual({ item: 'Saved article 2003', reason: 'Instapaper could not return the text' })
+	})
+
+	it('stops listing at the limit', async () => {
+		const { client, listRequests } = replayClient()
+		const { chapters, unreadIds } = await getInstapaperArticles(client, 5, undefined, deliveredInIssue4())
+
+		expect(listRequests).toHaveLength(2)
+		expect(chapters.map(c => c.bookmarkId)).toEqual(['1498', '1499', '1500', '2001', '2002'])
+		// 2003 was not listed, so the unread list is incomplete
+		expect(unreadIds).toBeUndefined()
+	})
+
+	it('converts bookmarks to chapters', async () => {
+		const { client } = replayClient()
+		const { chapters } = await getInstapaperArticles(client, 1, undefined, deliveredInIssue4())
+
+		expect(chapters).toHaveLength(1)
+		expect(chapters[0]).toMatchObject({
+			title: 'Saved article 1498',
+			author: 'Unknown',
+			bookmarkId: '1498',
+			url: 'https://example.com/articles/1498',
+			saved: (1715000000 + 1498 * 60) * 1000,
+		})
+		expect(chapters[0].data).toContain('instapaperUrl: https://www.instapaper.com/read/1498')
+		expect(chapters[0].data).toContain('<div><p>The text of saved article 1498.</p>')
+		// The metadata block is not part of the article
+		expect(chapters[0].words).toBe(11)
+	})
+
+	it('drops bookmarks before fetching their text, and fills the limit with others', async () => {
+		const { client, textRequests } = replayClient()
+		const run = newRun()
+		const rules: ContentRule[] = [{ action: 'exclude', field: 'title', operator: 'contains', value: 'article 1499' }]
+		const ruleDrop = (article: RuleArticle) => {
+			const dropped = droppedBeforeText(rules, article, true)
+			return dropped && dropped !== 'words' ? dropReason(dropped) : undefined
+		}
+		const { chapters } = await getInstapaperArticles(client, 3, run, deliveredInIssue4(), [], ruleDrop)
+
+		expect(chapters.map(c => c.bookmarkId)).toEqual(['1498', '1500', '2001'])
+		expect(textRequests).not.toContain('1499')
+		expect(run.run.skipped).toContainEqual({ item: 'Saved article 1499', reason: 'Rule: Exclude title containing "article 1499"' })
+	})
+
+	it('fetches dropped bookmarks for a preview without counting them', async () => {
+		const { client } = replayClient()
+		const ruleDrop = (article: RuleArticle) => article.title.endsWith('1499') ? 'Dropped' : undefined
+		const { chapters } = await getInstapaperArticles(client, 3, undefined, deliveredInIssue4(), [], ruleDrop, true)
+
+		expect(chapters.map(c => c.bookmarkId)).toEqual(['1498', '1499', '1500', '2001'])
+	})
+})
+
+describe('droppedBeforeText', () => {
+	const article: RuleArticle = { title: 'Sponsored: a new phone', publisher: 'example.com' }
+
+	it('decides on the title, author and publisher', () => {
+		const rules: ContentRule[] = [{ action: 'exclude', field: 'title', operator: 'contains', value: 'sponsored' }]
+		expect(droppedBeforeText(rules, article, true)).toBe(rules[0])
+		expect(droppedBeforeText([], article, false)).toBe('unmatched')
+	})
+
+	it('needs the text when a word count rule comes first', () => {
+		const rules: ContentRule[] = [
+			{ action: 'include', field: 'words', operator: 'above', value: '2000' },
+			{ action: 'exclude', field: 'title', operator: 'contains', value: 'sponsored' },
+		]
+		expect(droppedBeforeText(rules, article, true)).toBe('words')
+		expect(droppedBeforeText([{ ...rules[0], disabled: true }, rules[1]], article, true)).toBe(rules[1])
+	})
+})
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateGroupedArticlesMarkdown } from '../main';
+
+describe('generateGroupedArticlesMarkdown', () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+		vi.setSystemTime(new Date(2024, 4, 15, 8, 30))
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('lists the articles of each board', () => {
+		const { content, totalArticles } = generateGroupedArticlesMarkdown('Feedly Boards', [
+			{
+				groupTitle: 'Long Reads',
+				dateLabel: 'Published',
+				articles: [
+					{
+						title: ' The Bond Market Is Bored ',
+						primaryUrl: 'https://feedly.com/i/entry/bond',
+						date: '2024-05-14',
+						originalUrl: 'https://www.bloomberg.com/opinion/articles/2024-05-14/the-bond-market-is-bored',
+						publisher: 'Money Stuff',
+						author: 'Matt Levine',
+						description: 'Also: meme stocks',
+					},
+					{ title: 'Council Votes', primaryUrl: 'https://feedly.com/i/entry/council', date: '2024-05-13', dateLabel: 'Saved' },
+				],
+			},
+		])
+
+		expect(totalArticles).toBe(2)
+		expect(content).toBe(`# Feedly Boards
+
+*Last synced: ${new Date(2024, 4, 15, 8, 30).toLocaleString()}*
+
+## Long Reads
+
+- [The Bond Market Is Bored](https://feedly.com/i/entry/bond)
+    - **Published**: 2024-05-14
+    - **Original URL**: [https://www.bloomberg.com/opinion/articles/2024-05-14/the-bond-market-is-bored](https://www.bloomberg.com/opinion/articles/2024-05-14/the-bond-market-is-bored)
+    - **Publisher**: Money Stuff
+    - **Author**: Matt Levine
+    - **Description**: Also -  meme stocks
+- [Council Votes](https://feedly.com/i/entry/council)
+    - **Saved**: 2024-05-13
+
+`)
+	})
+
+	it('leaves out untitled articles and empty boards', () => {
+		const { content, totalArticles } = generateGroupedArticlesMarkdown('Feedly Boards', [
+			{ groupTitle: 'Empty', articles: [] },
+			{ groupTitle: 'Untitled', articles: [{ title: '  ', primaryUrl: 'https://feedly.com/i/entry/blank' }] },
+			{ groupTitle: 'Zoo', articles: [{ title: 'Pandas', primaryUrl: 'https://feedly.com/i/entry/pandas', date: '2024-05-15' }] },
+		], 'Added')
+
+		expect(totalArticles).toBe(1)
+		expect(content).not.toContain('## Empty')
+		expect(content).not.toContain('## Untitled')
+		expect(content).toContain('## Zoo\n\n- [Pandas](https://feedly.com/i/entry/pandas)\n    - **Added**: 2024-05-15\n')
+	})
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { htmlToMarkdown } from '../markdown';
+
+describe('htmlToMarkdown highlights', () => {
+	it('marks a highlight with characters which Markdown escapes', () => {
+		const markdown = htmlToMarkdown('<p>Returns were 5*3 [roughly] this year.</p>', ['5*3 [roughly]'])
+
+		expect(markdown).toBe('Returns were ==5\\*3 \\[roughly\\]== this year.')
+	})
+
+	it('marks the link text rather than the link target', () => {
+		const markdown = htmlToMarkdown('<p>Read <a href="https://example.com/bond-market">the bond market</a> piece.</p>', ['bond-market', 'the bond market'])
+
+		expect(markdown).toBe('Read [==the bond market==](https://example.com/bond-market) piece.')
+	})
+
+	it('marks a highlight across formatting and paragraphs', () => {
+		const markdown = htmlToMarkdown(
+			'<p>The bond market is <em>bored</em>.</p>\n<p>Meme   stocks are back.</p>',
+			['market is bored.\nMeme stocks'],
+		)
+
+		expect(markdown).toBe('The bond ==market is== *==bored==*==.==\n\n==Meme stocks== are back.')
+	})
+
+	it('leaves text alone when a highlight is not found', () => {
+		expect(htmlToMarkdown('<p>Pandas.</p>', ['Zebras'])).toBe('Pandas.')
+	})
+})
+
+describe('htmlToMarkdown', () => {
+	it('converts headings', () => {
+		expect(htmlToMarkdown('<h1>Money Stuff</h1><h3>The <em>bond</em> market</h3><h2> </h2>')).toBe('# Money Stuff\n\n### The *bond* market')
+	})
+
+	it('converts nested and numbered lists', () => {
+		const markdown = htmlToMarkdown('<ul><li>Bonds<ul><li>Treasuries</li></ul></li><li>Stocks</li></ul><ol start="3"><li>Third</li><li>Fourth</li></ol>')
+
+		expect(markdown).toBe('- Bonds\n  - Treasuries\n- Stocks\n\n3. Third\n4. Fourth')
+	})
+
+	it('converts links', () => {
+		expect(htmlToMarkdown('<p><a href="https://example.com/a (b)">The <b>piece</b></a></p>')).toBe('[The **piece**](https://example.com/a%20%28b%29)')
+		expect(htmlToMarkdown('<p><a href="https://example.com/a_b">https://example.com/a_b</a></p>')).toBe('<https://example.com/a_b>')
+		expect(htmlToMarkdown('<p><a href="javascript:void(0)">Subscribe</a></p>')).toBe('Subscribe')
+	})
+
+	it('keeps code blocks as they are', () => {
+		const markdown = htmlToMarkdown('<p>Run:</p><pre><code class="language-ts">const a_b = 1\n\n\nif (a_b) {\n    log(`*`)\n}</code></pre><p>Then <code>npm  test</code>.</p>')
+
+		expect(markdown).toBe('Run:\n\n```ts\nconst a_b = 1\n\n\nif (a_b) {\n    log(`*`)\n}\n```\n\nThen `npm test`.')
+	})
+
+	it('escapes formatting characters', () => {
+		expect(htmlToMarkdown('<p>snake_case, 2*3, [link], `code` and <b>&lt;tag&gt;</b></p>'))
+			.toBe('snake\\_case, 2\\*3, \\[link\\], \\`code\\` and **&lt;tag>**')
+	})
+
+	it('escapes text which would start a heading, blockquote or list', () => {
+		const markdown = htmlToMarkdown('<p># 1 in sales</p><p>&gt; not a quote</p><p>1. Not a list<br>- nor this<br>2024 was 1.5% up</p>')
+
+		expect(markdown).toBe('\\# 1 in sales\n\n\\> not a quote\n\n1\\. Not a list\n\\- nor this\n2024 was 1.5% up')
+	})
+})
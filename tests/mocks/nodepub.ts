@@ -0,0 +1,218 @@
+import type { DocumentOptions, NodepubFile } from 'nodepub';
+
+/**
+ * Generates the files of an ePub the way nodepub does, without reading the
+ * cover from disk. The layout follows nodepub 3.4.0 and is checked against
+ * the files it generated in `tests/fixtures/nodepub-3.4.0.json`:
+ *
+ * - sections are named `s<n>.xhtml` in the order they were added
+ * - an EPUB 2 package with an NCX and a `toc.xhtml` contents page
+ * - front matter comes before the contents page in the spine and the NCX
+ *
+ * As in nodepub, metadata and section titles are inserted without escaping,
+ * `addCSS` replaces the CSS added before, and the internal cover page is only
+ * generated for a cover image, which the plugin never passes.
+ */
+
+interface Section {
+	title: string
+	content: string
+	excludeFromToc: boolean
+	isFrontMatter: boolean
+	filename: string
+}
+
+function imageType(filename: string) {
+	const extension = filename.substring(filename.lastIndexOf('.')).toLowerCase()
+	const types: Record<string, string> = {
+		'.svg': 'image/svg+xml',
+		'.png': 'image/png',
+		'.jpg': 'image/jpeg',
+		'.jpeg': 'image/jpeg',
+		'.gif': 'image/gif',
+	}
+	return types[extension] ?? ''
+}
+
+export function document(options: DocumentOptions) {
+	let css = ''
+	const sections: Section[] = []
+	const coverFilename = options.cover?.split('/').pop()
+
+	const replace = (text: string) => {
+		const values: Record<string, string | undefined> = {
+			EOL: '\n',
+			ID: options.id,
+			TITLE: options.title,
+			AUTHOR: options.author,
+			PUBLISHER: options.publisher,
+			DESCRIPTION: options.description,
+			MODIFIED: new Date().toISOString().substring(0, 10),
+		}
+		return text.replace(/\[\[([A-Z]+)\]\]/g, (_, tag: string) => values[tag] ?? '')
+	}
+
+	const container = () => `<?xml version='1.0' encoding='UTF-8' ?>[[EOL]]<container version='1.0' xmlns='urn:oasis:names:tc:opendocument:xmlns:container'>[[EOL]]  <rootfiles>[[EOL]]    <rootfile full-path='OEBPF/ebook.opf' media-type='application/oebps-package+xml'/>[[EOL]]  </rootfiles>[[EOL]]</container>`
+
+	const opf = () => {
+		let result = "<?xml version='1.0' encoding='utf-8'?>[[EOL]]"
+		result += "<package xmlns='http://www.idpf.org/2007/opf' version='2.0' unique-identifier='BookId'>[[EOL]]"
+		result += "  <metadata xmlns:dc='http://purl.org/dc/elements/1.1/' xmlns:opf='http://www.idpf.org/2007/opf'>[[EOL]]"
+		result += '    <dc:title>[[TITLE]]</dc:title>[[EOL]]'
+		result += "    <dc:identifier id='BookId' opf:scheme='URI'>[[ID]]</dc:identifier>[[EOL]]"
+		result += '    <dc:language>[[LANGUAGE]]</dc:language>[[EOL]]'
+		result += "    <dc:creator opf:role='aut' opf:file-as='[[FILEAS]]'>[[AUTHOR]]</dc:creator>[[EOL]]"
+		result += '    <dc:publisher>[[PUBLISHER]]</dc:publisher>[[EOL]]'
+		result += '    <dc:description>[[DESCRIPTION]]</dc:description>[[EOL]]'
+		result += '    <dc:coverage></dc:coverage>[[EOL]]'
+		result += '    <dc:source>[[SOURCE]]</dc:source>[[EOL]]'
+		result += "    <dc:date opf:event='publication'>[[PUBLISHED]]</dc:date>[[EOL]]"
+		result += "    <dc:date opf:event='modification'>[[MODIFIED]]</dc:date>[[EOL]]"
+		result += '    <dc:rights>[[COPYRIGHT]]</dc:rights>[[EOL]]'
+		if (coverFilename) {
+			result += "    <meta name='cover' content='cover-image'/>[[EOL]]"
+		}
+		result += '  </metadata>[[EOL]]'
+		result += '  <manifest>[[EOL]]'
+		if (coverFilename) {
+			result += `    <item id='cover-image' media-type='${imageType(coverFilename)}' href='images/${coverFilename}'/>[[EOL]]`
+		}
+		result += "    <item id='navigation' media-type='application/x-dtbncx+xml' href='navigation.ncx'/>[[EOL]]"
+		sections.forEach((section, i) => {
+			result += `    <item id='s${i + 1}' media-type='application/xhtml+xml' href='content/${section.filename}'/>[[EOL]]`
+		})
+		result += "    <item id='toc' media-type='application/xhtml+xml' href='content/toc.xhtml'/>[[EOL]]"
+		result += "    <item id='css' media-type='text/css' href='css/ebook.css'/>[[EOL]]"
+		result += '  </manifest>[[EOL]]'
+		result += "  <spine toc='navigation'>[[EOL]]"
+		sections.forEach((section, i) => {
+			if (section.isFrontMatter) result += `    <itemref idref='s${i + 1}' />[[EOL]]`
+		})
+		result += "    <itemref idref='toc'/>[[EOL]]"
+		sections.forEach((section, i) => {
+			if (!section.isFrontMatter) result += `    <itemref idref='s${i + 1}' />[[EOL]]`
+		})
+		result += '  </spine>[[EOL]]'
+		result += '  <guide>[[EOL]]'
+		result += "    <reference type='toc' title='Contents' href='content/toc.xhtml'></reference>[[EOL]]"
+		result += '  </guide>[[EOL]]'
+		result += '</package>[[EOL]]'
+		return result
+	}
+
+	const ncx = () => {
+		let playOrder = 1
+		const navPoint = (section: Section, i: number) => {
+			return `  <navPoint class='section' id='s${i + 1}' playOrder='${playOrder++}'>[[EOL]]`
+				+ `    <navLabel><text>${section.title}</text></navLabel>[[EOL]]`
+				+ `    <content src='content/${section.filename}'/>[[EOL]]`
+				+ '  </navPoint>[[EOL]]'
+		}
+		let result = "<?xml version='1.0' encoding='UTF-8'?>[[EOL]]"
+		result += "<!DOCTYPE ncx PUBLIC '-//NISO//DTD ncx 2005-1//EN' 'http://www.daisy.org/z3986/2005/ncx-2005-1.dtd'>[[EOL]]"
+		result += "<ncx xmlns='http://www.daisy.org/z3986/2005/ncx/'>[[EOL]]"
+		result += '<head>[[EOL]]'
+		result += "  <meta name='dtb:uid' content='[[ID]]'/>[[EOL]]"
+		result += "  <meta name='dtb:depth' content='1'/>[[EOL]]"
+		result += "  <meta name='dtb:totalPageCount' content='0'/>[[EOL]]"
+		result += "  <meta name='dtb:maxPageNumber' content='0'/>[[EOL]]"
+		result += '</head>[[EOL]]'
+		result += '<docTitle><text>[[TITLE]]</text></docTitle>[[EOL]]'
+		result += '<docAuthor><text>[[AUTHOR]]</text></docAuthor>[[EOL]]'
+		result += '<navMap>[[EOL]]'
+		sections.forEach((section, i) => {
+			if (!section.excludeFromToc && section.isFrontMatter) result += navPoint(section, i)
+		})
+		result += `  <navPoint class='toc' id='toc' playOrder='${playOrder++}'>[[EOL]]`
+		result += '    <navLabel><text>[[CONTENTS]]</text></navLabel>[[EOL]]'
+		result += "    <content src='content/toc.xhtml'/>[[EOL]]"
+		result += '  </navPoint>[[EOL]]'
+		sections.forEach((section, i) => {
+			if (!section.excludeFromToc && !section.isFrontMatter) result += navPoint(section, i)
+		})
+		result += '</navMap>[[EOL]]'
+		result += '</ncx>[[EOL]]'
+		return result
+	}
+
+	const section = (i: number) => {
+		const { title, content } = sections[i]
+		let result = "<?xml version='1.0' encoding='utf-8'?>[[EOL]]"
+		result += "<!DOCTYPE html PUBLIC '-//W3C//DTD XHTML 1.1//EN' 'http://www.w3.org/TR/xhtml11/DTD/xhtml11.dtd'>[[EOL]]"
+		result += "<html xmlns='http://www.w3.org/1999/xhtml'>[[EOL]]"
+		result += "  <head profile='http://dublincore.org/documents/dcmi-terms/'>[[EOL]]"
+		result += "    <meta http-equiv='Content-Type' content='text/html;' />[[EOL]]"
+		result += `    <title>[[TITLE]] - ${title}</title>[[EOL]]`
+		result += "    <meta name='DCTERMS.title' content='[[TITLE]]' />[[EOL]]"
+		result += "    <meta name='DCTERMS.language' content='[[LANGUAGE]]' scheme='DCTERMS.RFC4646' />[[EOL]]"
+		result += "    <meta name='DCTERMS.source' content='MFW' />[[EOL]]"
+		result += "    <meta name='DCTERMS.issued' content='{$issued}' scheme='DCTERMS.W3CDTF'/>[[EOL]]"
+		result += "    <meta name='DCTERMS.creator' content='[[AUTHOR]]'/>[[EOL]]"
+		result += "    <meta name='DCTERMS.contributor' content='' />[[EOL]]"
+		result += "    <meta name='DCTERMS.modified' content='{$issued}' scheme='DCTERMS.W3CDTF'/>[[EOL]]"
+		result += "    <meta name='DCTERMS.provenance' content='' />[[EOL]]"
+		result += "    <meta name='DCTERMS.subject' content='[[GENRE]]' />[[EOL]]"
+		result += "    <link rel='schema.DC' href='http://purl.org/dc/elements/1.1/' hreflang='en' />[[EOL]]"
+		result += "    <link rel='schema.DCTERMS' href='http://purl.org/dc/terms/' hreflang='en' />[[EOL]]"
+		result += "    <link rel='schema.DCTYPE' href='http://purl.org/dc/dcmitype/' hreflang='en' />[[EOL]]"
+		result += "    <link rel='schema.DCAM' href='http://purl.org/dc/dcam/' hreflang='en' />[[EOL]]"
+		result += "    <link rel='stylesheet' type='text/css' href='../css/ebook.css' />[[EOL]]"
+		result += '  </head>[[EOL]]'
+		result += '  <body>[[EOL]]'
+		result += `    <div id='s${i + 1}'></div>[[EOL]]`
+		result += '    <div>[[EOL]]'
+		for (const line of content.split('\n').filter(line => line.length > 0)) {
+			result += `${line}[[EOL]]`
+		}
+		result += '    </div>[[EOL]]'
+		result += '  </body>[[EOL]]'
+		result += '</html>[[EOL]]'
+		return result
+	}
+
+	const contents = () => {
+		let result = "<?xml version='1.0' encoding='utf-8'?>[[EOL]]"
+		result += "<!DOCTYPE html PUBLIC '-//W3C//DTD XHTML 1.1//EN' 'http://www.w3.org/TR/xhtml11/DTD/xhtml11.dtd' >[[EOL]]"
+		result += "<html xmlns='http://www.w3.org/1999/xhtml'>[[EOL]]"
+		result += '  <head>[[EOL]]'
+		result += '    <title>[[CONTENTS]]</title>[[EOL]]'
+		result += "    <link rel='stylesheet' type='text/css' href='../css/ebook.css' />[[EOL]]"
+		result += '  </head>[[EOL]]'
+		result += '  <body>[[EOL]]'
+		result += "    <div class='contents'>[[EOL]]"
+		result += '      <h1>[[CONTENTS]]</h1>[[EOL]]'
+		for (const section of sections.filter(s => !s.excludeFromToc)) {
+			result += `      <a href='${section.filename}'>${section.title}</a><br/>[[EOL]]`
+		}
+		result += '    </div>[[EOL]]'
+		result += '  </body>[[EOL]]'
+		result += '</html>[[EOL]]'
+		return result
+	}
+
+	return {
+		addCSS(text: string) {
+			css = text
+		},
+		addSection(title: string, content: string, excludeFromToc = false, isFrontMatter = false) {
+			sections.push({ title, content, excludeFromToc, isFrontMatter, filename: `s${sections.length + 1}.xhtml` })
+		},
+		async getFilesForEPUB(): Promise<NodepubFile[]> {
+			const files: NodepubFile[] = [
+				{ name: 'mimetype', folder: '', content: 'application/epub+zip' },
+				{ name: 'container.xml', folder: 'META-INF', content: replace(container()) },
+				{ name: 'ebook.opf', folder: 'OEBPF', content: replace(opf()) },
+				{ name: 'navigation.ncx', folder: 'OEBPF', content: replace(ncx()) },
+				{ name: 'ebook.css', folder: 'OEBPF/css', content: replace(css) },
+				...sections.map((s, i) => ({ name: s.filename, folder: 'OEBPF/content', content: replace(section(i)) })),
+				{ name: 'toc.xhtml', folder: 'OEBPF/content', content: replace(contents()) },
+			]
+			if (coverFilename) {
+				files.push({ name: coverFilename, folder: 'OEBPF/images', content: new Uint8Array() })
+			}
+			return files
+		},
+	}
+}
+
+export default { document }
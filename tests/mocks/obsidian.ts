@@ -0,0 +1,111 @@
+/**
+ * The parts of the Obsidian API which the plugin uses outside of its UI, for
+ * running its modules in tests. The vault lives in `tests/vault.ts`.
+ */
+
+export function normalizePath(path: string) {
+	const normalized = path.replace(/[\\/]+/g, '/').replace(/^\/|\/$/g, '')
+	return normalized || '/'
+}
+
+export function requireApiVersion(version: string) {
+	return version.length > 0
+}
+
+/** Tests replay recorded responses, so any request reaching this is a missing fixture. */
+export async function requestUrl(params: { url: string }): Promise<never> {
+	throw new Error(`Tests cannot reach the network: ${params.url}`)
+}
+
+export function sanitizeHTMLToDom(html: string) {
+	const template = document.createElement('template')
+	template.innerHTML = html
+	return template.content
+}
+
+export class Notice {
+	constructor(public message = '', public duration?: number) {}
+
+	setMessage(message: string) {
+		this.message = message
+		return this
+	}
+
+	hide() {}
+}
+
+export class TAbstractFile {
+	path = ''
+	name = ''
+	parent: TFolder | null = null
+}
+
+export class TFile extends TAbstractFile {
+	basename = ''
+	extension = ''
+	stat = { ctime: 0, mtime: 0, size: 0 }
+}
+
+export class TFolder extends TAbstractFile {
+	children: TAbstractFile[] = []
+}
+
+export class Component {
+	load() {}
+	unload() {}
+	register() {}
+	registerEvent() {}
+	registerInterval(id: number) {
+		return id
+	}
+}
+
+export class Plugin extends Component {
+	private data: unknown = null
+
+	constructor(public app: unknown, public manifest: { id: string, dir?: string }) {
+		super()
+	}
+
+	addCommand() {}
+	removeCommand() {}
+	addSettingTab() {}
+	registerView() {}
+
+	async loadData() {
+		return this.data
+	}
+
+	async saveData(data: unknown) {
+		this.data = JSON.parse(JSON.stringify(data))
+	}
+}
+
+export class Modal {
+	contentEl = document.createElement('div')
+	modalEl = document.createElement('div')
+
+	constructor(public app: unknown) {}
+
+	open() {}
+	close() {}
+	setTitle() {
+		return this
+	}
+}
+
+export class PluginSettingTab {
+	containerEl = document.createElement('div')
+
+	constructor(public app: unknown, public plugin: unknown) {}
+}
+
+export class ItemView {
+	contentEl = document.createElement('div')
+
+	constructor(public leaf: unknown) {}
+}
+
+export class Setting {
+	constructor(public containerEl: HTMLElement) {}
+}
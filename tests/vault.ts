@@ -0,0 +1,144 @@
+import { App, CachedMetadata, DataAdapter, TAbstractFile, TFile, TFolder } from 'obsidian';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+/** Folder of the tests, where the fixtures of the recording transport live. */
+const TESTS_DIR = dirname(fileURLToPath(import.meta.url))
+
+/**
+ * Reads and writes files under the tests folder, like the adapter of a
+ * vault whose plugin folder is `tests`.
+ */
+export function testsAdapter(): DataAdapter {
+	const resolve = (path: string) => join(TESTS_DIR, path)
+	return {
+		exists: async (path: string) => existsSync(resolve(path)),
+		read: async (path: string) => readFileSync(resolve(path), 'utf8'),
+		write: async (path: string, data: string) => writeFileSync(resolve(path), data),
+		mkdir: async (path: string) => {
+			mkdirSync(resolve(path), { recursive: true })
+		},
+	} as unknown as DataAdapter
+}
+
+/**
+ * Splits the frontmatter of a note, written as one `key: JSON value` line
+ * per property, from its body.
+ */
+function parseFrontmatter(content: string) {
+	const lines = content.split('\n')
+	if (lines[0] !== '---') return undefined
+	const end = lines.indexOf('---', 1)
+	if (end === -1) return undefined
+	const frontmatter: Record<string, unknown> = {}
+	for (const line of lines.slice(1, end)) {
+		const separator = line.indexOf(': ')
+		if (separator === -1) continue
+		const value = line.substring(separator + 2)
+		try {
+			frontmatter[line.substring(0, separator)] = JSON.parse(value)
+		} catch {
+			frontmatter[line.substring(0, separator)] = value
+		}
+	}
+	return { frontmatter, end, body: lines.slice(end + 1).join('\n') }
+}
+
+/**
+ * An in-memory vault with the parts of the `App` which the plugin uses to
+ * create and change notes.
+ */
+export class TestVault {
+	files = new Map<string, { file: TFile, data: string | ArrayBuffer }>()
+	folders = new Set<string>()
+
+	readonly app = {
+		vault: {
+			adapter: testsAdapter(),
+			getFileByPath: (path: string) => this.files.get(path)?.file ?? null,
+			getFolderByPath: (path: string) => this.getFolder(path),
+			getAbstractFileByPath: (path: string): TAbstractFile | null => this.files.get(path)?.file ?? this.getFolder(path),
+			getFiles: () => [...this.files.values()].map(f => f.file),
+			getMarkdownFiles: () => [...this.files.values()].map(f => f.file).filter(f => f.extension === 'md'),
+			createFolder: async (path: string) => {
+				this.folders.add(path)
+				return this.getFolder(path)
+			},
+			create: async (path: string, data: string) => this.create(path, data),
+			createBinary: async (path: string, data: ArrayBuffer) => this.create(path, data),
+			read: async (file: TFile) => this.read(file),
+			cachedRead: async (file: TFile) => this.read(file),
+			modify: async (file: TFile, data: string) => {
+				this.files.get(file.path)!.data = data
+			},
+			process: async (file: TFile, fn: (data: string) => string) => {
+				const data = fn(this.read(file))
+				this.files.get(file.path)!.data = data
+				return data
+			},
+		},
+		fileManager: {
+			processFrontMatter: async (file: TFile, fn: (frontmatter: Record<string, unknown>) => void) => {
+				const content = this.read(file)
+				const parsed = parseFrontmatter(content)
+				const frontmatter = parsed?.frontmatter ?? {}
+				fn(frontmatter)
+				const lines = Object.entries(frontmatter).map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+				this.files.get(file.path)!.data = `---\n${lines.join('\n')}\n---\n${parsed?.body ?? content}`
+			},
+		},
+		metadataCache: {
+			getFileCache: (file: TFile): CachedMetadata | null => {
+				const parsed = parseFrontmatter(this.read(file))
+				if (!parsed) return {}
+				return {
+					frontmatter: parsed.frontmatter,
+					frontmatterPosition: {
+						start: { line: 0, col: 0, offset: 0 },
+						end: { line: parsed.end, col: 3, offset: 0 },
+					},
+				}
+			},
+		},
+	} as unknown as App
+
+	private getFolder(path: string) {
+		if (!this.folders.has(path)) return null
+		const folder = new TFolder()
+		folder.path = path
+		folder.name = path.split('/').pop()!
+		return folder
+	}
+
+	private create(path: string, data: string | ArrayBuffer) {
+		if (this.files.has(path)) {
+			throw new Error('File already exists.')
+		}
+		const file = new TFile()
+		file.path = path
+		file.name = path.split('/').pop()!
+		file.extension = file.name.includes('.') ? file.name.split('.').pop()! : ''
+		file.basename = file.name.substring(0, file.name.length - file.extension.length - 1)
+		this.files.set(path, { file, data })
+		return file
+	}
+
+	/** Reads a note, or a binary file as a string of its bytes. */
+	read(file: TFile | string): string {
+		const data = this.files.get(typeof file === 'string' ? file : file.path)?.data
+		if (data === undefined) {
+			throw new Error(`No file ${typeof file === 'string' ? file : file.path}`)
+		}
+		return typeof data === 'string' ? data : new TextDecoder().decode(data)
+	}
+
+	/** Returns the bytes of a binary file, such as an ePub. */
+	binary(path: string): ArrayBuffer {
+		const data = this.files.get(path)?.data
+		if (!(data instanceof ArrayBuffer)) {
+			throw new Error(`No binary file ${path}`)
+		}
+		return data
+	}
+}
@@ -0,0 +1,157 @@
+import { DataAdapter, normalizePath, requestUrl, RequestUrlParam } from 'obsidian';
+import MD5 from 'crypto-js/md5';
+
+/** The parts of a `requestUrl` response which the API clients read. */
+export interface TransportResponse {
+	status: number
+	headers: Record<string, string>
+	text: string
+	json: any
+}
+
+/** Sends a request the way `requestUrl` does, including throwing on error statuses unless `throw` is false. */
+export type Transport = (params: RequestUrlParam) => Promise<TransportResponse>
+
+/**
+ * `live` sends requests, `record` also saves their responses as fixtures,
+ * and `replay` answers from the fixtures without using the network.
+ */
+export type TransportMode = 'live' | 'record' | 'replay'
+
+interface Fixture {
+	request: {
+		method: string
+		url: string
+		body?: string
+	}
+	response: {
+		status: number
+		headers: Record<string, string>
+		text: string
+	}
+}
+
+/** Form and JSON fields whose values are never written to a fixture. */
+const SECRET_FIELD = /password|token|secret/i
+
+/** Response headers worth keeping in a fixture. */
+const KEPT_HEADERS = /^(content-type|x-ratelimit-.*)$/i
+
+/**
+ * Replaces the values of secret fields in a form-encoded or JSON body.
+ */
+function redactBody(body: string): string {
+	try {
+		const json = JSON.parse(body)
+		if (json && typeof json === 'object') {
+			for (const key of Object.keys(json)) {
+				if (SECRET_FIELD.test(key)) {
+					json[key] = '***'
+				}
+			}
+			return JSON.stringify(json)
+		}
+	} catch {
+		// Not JSON, so form-encoded
+	}
+	const params = new URLSearchParams(body)
+	for (const key of [...params.keys()]) {
+		if (SECRET_FIELD.test(key)) {
+			params.set(key, '***')
+		}
+	}
+	return params.toString()
+}
+
+function toResponse(status: number, headers: Record<string, string>, text: string): TransportResponse {
+	return {
+		status,
+		headers,
+		text,
+		get json() {
+			return JSON.parse(text)
+		},
+	}
+}
+
+/**
+ * Sends the requests of the Feedly and Instapaper clients, and can record
+ * their responses to fixture files and replay them later with no network.
+ *
+ * Fixtures are named after the method, URL and body of the request. Headers
+ * are not part of the name, so OAuth signatures and access tokens neither
+ * change it nor end up in the file, and requests carrying credentials in the
+ * body are never recorded.
+ */
+export class RecordingTransport {
+	mode: TransportMode = 'live'
+
+	constructor(private adapter: DataAdapter, private fixturesDir: string) {
+		this.fixturesDir = normalizePath(fixturesDir)
+	}
+
+	/** Sends a request in the current mode. Bound, so that it can be passed as a `Transport`. */
+	request: Transport = async (params) => {
+		if (this.mode === 'replay') {
+			return await this.replay(params)
+		}
+		const res = await requestUrl({ ...params, throw: false })
+		if (this.mode === 'record') {
+			await this.record(params, res.status, res.headers, res.text)
+		}
+		return this.checkStatus(params, toResponse(res.status, res.headers, res.text))
+	}
+
+	private async replay(params: RequestUrlParam): Promise<TransportResponse> {
+		const path = this.fixturePath(params)
+		if (!await this.adapter.exists(path)) {
+			throw new Error(`No recorded response for ${params.method ?? 'GET'} ${params.url}`)
+		}
+		const fixture: Fixture = JSON.parse(await this.adapter.read(path))
+		const { status, headers, text } = fixture.response
+		return this.checkStatus(params, toResponse(status, headers, text))
+	}
+
+	private async record(params: RequestUrlParam, status: number, headers: Record<string, string>, text: string) {
+		const body = typeof params.body === 'string' ? params.body : undefined
+		if (body && redactBody(body) !== body) {
+			// The response of a sign-in or token request holds credentials too
+			return
+		}
+		const keptHeaders: Record<string, string> = {}
+		for (const [name, value] of Object.entries(headers)) {
+			if (KEPT_HEADERS.test(name)) {
+				keptHeaders[name.toLowerCase()] = value
+			}
+		}
+		const fixture: Fixture = {
+			request: { method: params.method ?? 'GET', url: params.url, body },
+			response: { status, headers: keptHeaders, text },
+		}
+		if (!await this.adapter.exists(this.fixturesDir)) {
+			await this.adapter.mkdir(this.fixturesDir)
+		}
+		await this.adapter.write(this.fixturePath(params), JSON.stringify(fixture, null, '\t'))
+	}
+
+	/**
+	 * Names the fixture of a request after its host and path, followed by a
+	 * hash of the method, URL and redacted body.
+	 */
+	private fixturePath(params: RequestUrlParam) {
+		const method = params.method ?? 'GET'
+		const body = typeof params.body === 'string' ? redactBody(params.body) : ''
+		const url = new URL(params.url)
+		const name = `${url.host}${url.pathname}`.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 80)
+		const hash = MD5(`${method} ${params.url}\n${body}`).toString().substring(0, 12)
+		return normalizePath(`${this.fixturesDir}/${name}-${hash}.json`)
+	}
+
+	/** Throws on error statuses like `requestUrl`, unless the caller asked for them. */
+	private checkStatus(params: RequestUrlParam, res: TransportResponse) {
+		if (params.throw !== false && res.status >= 400) {
+			throw new Error(`Request failed, status ${res.status}`)
+		}
+		return res
+	}
+}
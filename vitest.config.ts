@@ -0,0 +1,17 @@
+import { defineConfig } from 'vitest/config';
+import { fileURLToPath } from 'url';
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// Both only exist inside Obsidian, or do not install outside of it
+			obsidian: fileURLToPath(new URL('./tests/mocks/obsidian.ts', import.meta.url)),
+			nodepub: fileURLToPath(new URL('./tests/mocks/nodepub.ts', import.meta.url)),
+		},
+	},
+	test: {
+		include: ['tests/**/*.test.ts'],
+		// Cleaning profiles parse HTML with DOMParser, as in Obsidian
+		environment: 'jsdom',
+	},
+});